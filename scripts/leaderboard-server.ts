@@ -0,0 +1,210 @@
+/**
+ * Reference online leaderboard for local development and tests. Every submission is replayed with
+ * the game's own engine, on a worker thread, before it is accepted; boards keep each player's best run.
+ *
+ * Players are known by a secret only their device holds. Boards list them under `publicIdFor(secret)`,
+ * and only the secret can submit or rename, so nothing a board publishes lets anyone act as them.
+ *
+ *   npm run leaderboard-server -- --port 8787 --data leaderboard.json
+ *   VITE_LEADERBOARD_URL=http://localhost:8787 npm run dev
+ *
+ * Routes:
+ *   POST /v1/runs                                    RunSubmission → SubmitResult (422 when rejected)
+ *   GET  /v1/boards/:board/top?limit=10              → { entries }
+ *   GET  /v1/boards/:board/around?publicId=&span=2   → { entries }
+ *   POST /v1/boards/:board/initials                  { playerSecret, initials } → { entry } (null without a run)
+ */
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { parseArgs } from 'node:util';
+import { Worker } from 'node:worker_threads';
+import { sanitizeInitials } from '../src/game/core/leaderboard';
+import { publicIdFor, type OnlineBoardKey, type OnlineEntry, type SubmitResult, type VerifiedRun } from '../src/game/online/protocol';
+import type { VerifyJob } from './verify-worker';
+
+const { values } = parseArgs({
+  options: {
+    port: { type: 'string', default: '8787' },
+    data: { type: 'string' },
+  },
+});
+
+/** A replay is a few KB per minute of play; this leaves room for hour-long runs. */
+const MAX_BODY_BYTES = 1_000_000;
+const MAX_LIMIT = 100;
+const MAX_SPAN = 10;
+/** Replays run one at a time; past this many waiting, submissions get a 503 and the client retries later. */
+const MAX_PENDING_VERIFICATIONS = 8;
+
+type StoredEntry = Omit<OnlineEntry, 'rank'>;
+type Boards = Record<string, Record<string, StoredEntry>>;
+
+const dataFile = values.data;
+const boards: Boards = dataFile && existsSync(dataFile) ? JSON.parse(readFileSync(dataFile, 'utf8')) as Boards : {};
+
+const persist = () => {
+  if (dataFile) writeFileSync(dataFile, JSON.stringify(boards, null, 2));
+};
+
+/** Higher score first; ties go to whoever got there first. */
+const ranked = (board: string): OnlineEntry[] => Object.values(boards[board] ?? {})
+  .sort((a, b) => b.score - a.score || a.submittedAt - b.submittedAt)
+  .map((entry, i) => ({ ...entry, rank: i + 1 }));
+
+const send = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, {
+    'content-type': 'application/json',
+    // The dev server runs the game on another port.
+    'access-control-allow-origin': '*',
+    'access-control-allow-headers': 'content-type',
+  });
+  res.end(body === null ? undefined : JSON.stringify(body));
+};
+
+const readBody = (req: IncomingMessage) => new Promise<string>((resolve, reject) => {
+  let size = 0;
+  const chunks: Buffer[] = [];
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(new Error('Body too large'));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+  req.on('error', reject);
+});
+
+const verifications = new Map<number, { resolve: (verified: VerifiedRun) => void; reject: (error: Error) => void }>();
+let nextVerification = 0;
+
+const startVerifier = (): Worker => {
+  // Node loads a worker's entry file before any loader hooks apply, so tsx is registered first and the
+  // TypeScript worker imported after it.
+  const entry = JSON.stringify(new URL('./verify-worker.ts', import.meta.url).href);
+  const worker = new Worker(`import('tsx/esm/api').then(({ register }) => { register(); return import(${entry}); });`, { eval: true });
+  worker.on('message', ({ id, verified }: { id: number; verified: VerifiedRun }) => {
+    verifications.get(id)?.resolve(verified);
+    verifications.delete(id);
+  });
+  // A crashed worker takes its queue with it: those submissions fail and a fresh worker takes over.
+  worker.on('error', (error) => {
+    for (const { reject } of verifications.values()) reject(error);
+    verifications.clear();
+    verifier = startVerifier();
+  });
+  return worker;
+};
+
+let verifier = startVerifier();
+
+const verify = (body: unknown) => new Promise<VerifiedRun>((resolve, reject) => {
+  const id = nextVerification++;
+  verifications.set(id, { resolve, reject });
+  verifier.postMessage({ id, body } satisfies VerifyJob);
+});
+
+const clampInt = (value: string | null, def: number, max: number) => Math.min(max, Math.max(1, Math.floor(Number(value ?? def)) || def));
+
+const submit = async (req: IncomingMessage, res: ServerResponse) => {
+  let text: string;
+  try {
+    text = await readBody(req);
+  } catch {
+    send(res, 413, { error: 'Body too large' });
+    return;
+  }
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    send(res, 422, { accepted: false, reason: 'malformed' } satisfies SubmitResult);
+    return;
+  }
+  if (verifications.size >= MAX_PENDING_VERIFICATIONS) {
+    send(res, 503, { error: 'Busy verifying other runs' });
+    return;
+  }
+  const verified = await verify(body);
+  if (!verified.ok) {
+    send(res, 422, { accepted: false, reason: verified.reason } satisfies SubmitResult);
+    return;
+  }
+  const { submission, board, summary } = verified;
+  const publicId = await publicIdFor(submission.playerSecret);
+  const entries = (boards[board] ??= {});
+  const previous = entries[publicId];
+  if (!previous || summary.score > previous.score) {
+    entries[publicId] = {
+      publicId,
+      initials: submission.initials,
+      score: summary.score,
+      durationSeconds: summary.durationSeconds,
+      sizeTier: summary.sizeTier,
+      submittedAt: Date.now(),
+    };
+    persist();
+  }
+  const entry = ranked(board).find((e) => e.publicId === publicId)!;
+  send(res, 201, { accepted: true, board, entry } satisfies SubmitResult);
+};
+
+/** Initials are typed after the run is submitted, so they arrive separately and apply to the player's entry. */
+const rename = async (board: string, req: IncomingMessage, res: ServerResponse) => {
+  let body: { playerSecret?: unknown; initials?: unknown };
+  try {
+    body = JSON.parse(await readBody(req)) as typeof body;
+  } catch {
+    send(res, 400, { error: 'Malformed body' });
+    return;
+  }
+  if (typeof body.playerSecret !== 'string' || typeof body.initials !== 'string') {
+    send(res, 400, { error: 'Malformed body' });
+    return;
+  }
+  const publicId = await publicIdFor(body.playerSecret);
+  const stored = boards[board]?.[publicId];
+  if (stored) {
+    stored.initials = sanitizeInitials(body.initials);
+    persist();
+  }
+  send(res, 200, { entry: ranked(board).find((e) => e.publicId === publicId) ?? null });
+};
+
+const server = createServer((req, res) => {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  if (req.method === 'OPTIONS') {
+    send(res, 204, null);
+    return;
+  }
+  if (req.method === 'POST' && url.pathname === '/v1/runs') {
+    submit(req, res).catch(() => send(res, 500, { error: 'Submission failed' }));
+    return;
+  }
+  const initialsMatch = /^\/v1\/boards\/([^/]+)\/initials$/.exec(url.pathname);
+  if (req.method === 'POST' && initialsMatch) {
+    rename(decodeURIComponent(initialsMatch[1]), req, res).catch(() => send(res, 500, { error: 'Rename failed' }));
+    return;
+  }
+  const match = /^\/v1\/boards\/([^/]+)\/(top|around)$/.exec(url.pathname);
+  if (req.method === 'GET' && match) {
+    const board = decodeURIComponent(match[1]) as OnlineBoardKey;
+    const entries = ranked(board);
+    if (match[2] === 'top') {
+      send(res, 200, { entries: entries.slice(0, clampInt(url.searchParams.get('limit'), 10, MAX_LIMIT)) });
+      return;
+    }
+    const index = entries.findIndex((e) => e.publicId === url.searchParams.get('publicId'));
+    const span = clampInt(url.searchParams.get('span'), 2, MAX_SPAN);
+    send(res, 200, { entries: index < 0 ? [] : entries.slice(Math.max(0, index - span), index + span + 1) });
+    return;
+  }
+  send(res, 404, { error: 'Not found' });
+});
+
+const port = Number(values.port) || 8787;
+server.listen(port, () => {
+  console.log(`Leaderboard server listening on http://localhost:${port}${dataFile ? ` (data: ${dataFile})` : ''}`);
+});
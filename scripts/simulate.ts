@@ -0,0 +1,73 @@
+/**
+ * Headless balancing harness: drives the engine with scripted bots, no Phaser or DOM required.
+ *
+ *   npm run simulate -- --runs 2000 --policy cautious --difficulty hard
+ *   npm run simulate -- --json > balance.json
+ */
+import { parseArgs } from 'node:util';
+import { difficulties } from '../src/game/core/config';
+import type { DifficultyKey } from '../src/game/core/types';
+import { botPolicies } from '../src/game/sim/bots';
+import { defaultSimOptions, simulateBatch, type SimSummary } from '../src/game/sim/harness';
+
+const { values } = parseArgs({
+  options: {
+    runs: { type: 'string', default: '1000' },
+    policy: { type: 'string', default: 'cautious' },
+    difficulty: { type: 'string', default: 'all' },
+    seed: { type: 'string', default: '1' },
+    'max-seconds': { type: 'string', default: String(defaultSimOptions.maxSeconds) },
+    'dt-ms': { type: 'string', default: String(defaultSimOptions.dtMs) },
+    json: { type: 'boolean', default: false },
+  },
+});
+
+const fail = (message: string): never => {
+  console.error(message);
+  process.exit(1);
+};
+
+const policies = values.policy === 'all'
+  ? Object.values(botPolicies)
+  : [botPolicies[values.policy] ?? fail(`Unknown policy "${values.policy}". Available: ${Object.keys(botPolicies).join(', ')}, all`)];
+const difficultyKeys = values.difficulty === 'all'
+  ? (Object.keys(difficulties) as DifficultyKey[])
+  : [values.difficulty in difficulties ? values.difficulty as DifficultyKey : fail(`Unknown difficulty "${values.difficulty}"`)];
+const runs = Math.max(1, Number(values.runs) || 0);
+const firstSeed = Number(values.seed) || 1;
+const options = {
+  maxSeconds: Number(values['max-seconds']) || defaultSimOptions.maxSeconds,
+  dtMs: Number(values['dt-ms']) || defaultSimOptions.dtMs,
+};
+
+const fmt = (v: number, digits = 1) => v.toFixed(digits).padStart(8);
+
+const printSummary = (s: SimSummary, elapsedMs: number) => {
+  console.log(`\n== ${difficulties[s.difficulty].label} / ${s.policy} — ${s.runs} runs (${s.timedOut} hit the ${options.maxSeconds}s cap) in ${(elapsedMs / 1000).toFixed(1)}s`);
+  console.log('                  mean     min     p10     p50     p90     max');
+  const row = (label: string, d: SimSummary['score'], digits?: number) =>
+    console.log(`${label.padEnd(14)}${[d.mean, d.min, d.p10, d.p50, d.p90, d.max].map((v) => fmt(v, digits)).join('')}`);
+  row('survival (s)', s.survivalSeconds);
+  row('score', s.score, 0);
+  const kinds = Object.keys(s.hitsByKind) as Array<keyof SimSummary['hitsByKind']>;
+  console.log(`hits by kind    ${kinds.map((k) => `${k} ${s.hitsByKind[k]}`).join(', ') || 'none'}`);
+  console.log(`deaths by kind  ${kinds.map((k) => `${k} ${s.deathsByKind[k] ?? 0}`).join(', ') || 'none'}`);
+  console.log(`apex kills/run  ${s.apexKillsPerRun.toFixed(2)}`);
+  for (const t of s.tiers) {
+    const median = t.medianSeconds === null ? '—' : `${t.medianSeconds.toFixed(1)}s`;
+    console.log(`size tier ${t.tier}     reached ${t.reachedPct.toFixed(1).padStart(5)}%  median ${median}`);
+  }
+  const unlocks = Object.entries(s.achievementPct).map(([id, pct]) => `${id} ${pct.toFixed(0)}%`);
+  console.log(`achievements    ${unlocks.join(', ') || 'none'}`);
+};
+
+const summaries: SimSummary[] = [];
+for (const policy of policies) {
+  for (const difficulty of difficultyKeys) {
+    const startedAt = performance.now();
+    const summary = simulateBatch(difficulty, policy, runs, firstSeed, options);
+    summaries.push(summary);
+    if (!values.json) printSummary(summary, performance.now() - startedAt);
+  }
+}
+if (values.json) console.log(JSON.stringify(summaries, null, 2));
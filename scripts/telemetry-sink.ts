@@ -0,0 +1,59 @@
+/**
+ * Local stand-in for the analytics collector: appends every received event to an NDJSON file.
+ *
+ *   npm run telemetry-sink -- --port 8788 --out telemetry.ndjson
+ *   VITE_TELEMETRY_SINK=http VITE_TELEMETRY_URL=http://localhost:8788/v1/events npm run dev
+ */
+import { appendFileSync } from 'node:fs';
+import { createServer } from 'node:http';
+import { parseArgs } from 'node:util';
+
+const { values } = parseArgs({
+  options: {
+    port: { type: 'string', default: '8788' },
+    out: { type: 'string', default: 'telemetry.ndjson' },
+  },
+});
+
+const MAX_BODY_BYTES = 1_000_000;
+const outFile = values.out ?? 'telemetry.ndjson';
+
+const server = createServer((req, res) => {
+  res.setHeader('access-control-allow-origin', '*');
+  res.setHeader('access-control-allow-headers', 'content-type');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end();
+    return;
+  }
+  if (req.method !== 'POST' || req.url !== '/v1/events') {
+    res.writeHead(404).end();
+    return;
+  }
+  let size = 0;
+  const chunks: Buffer[] = [];
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      res.writeHead(413).end();
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => {
+    try {
+      const { events } = JSON.parse(Buffer.concat(chunks).toString('utf8')) as { events: unknown };
+      if (!Array.isArray(events)) throw new Error('events must be an array');
+      if (events.length) appendFileSync(outFile, `${events.map((e) => JSON.stringify(e)).join('\n')}\n`);
+      console.log(`+${events.length} event(s)`);
+      res.writeHead(204).end();
+    } catch {
+      res.writeHead(400).end();
+    }
+  });
+});
+
+const port = Number(values.port) || 8788;
+server.listen(port, () => {
+  console.log(`Telemetry sink listening on http://localhost:${port}/v1/events (writing ${outFile})`);
+});
@@ -0,0 +1,12 @@
+/**
+ * Worker thread for `leaderboard-server.ts`. Replaying a submission can take seconds, so it runs here
+ * rather than on the server's event loop, where it would hold up every other request.
+ */
+import { parentPort } from 'node:worker_threads';
+import { verifySubmission } from '../src/game/online/protocol';
+
+export type VerifyJob = { id: number; body: unknown };
+
+parentPort?.on('message', ({ id, body }: VerifyJob) => {
+  parentPort?.postMessage({ id, verified: verifySubmission(body) });
+});
@@ -1,10 +1,24 @@
-import { useEffect, useRef, useState, type PointerEvent as ReactPointerEvent } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState, type PointerEvent as ReactPointerEvent } from 'react';
 import { GameCanvas } from '../components/GameCanvas';
-import { difficulties, type DifficultyKey, type GameEvent, type GameState, type InputState, type PlayModeKey, type SaveData } from '../game/core';
+import { KeyBindingsPanel } from '../components/KeyBindingsPanel';
+import { AchievementsPanel } from '../components/AchievementsPanel';
+import { ChallengeSelect, DAILY_SELECTION_ID } from '../components/ChallengeSelect';
+import { LeaderboardView } from '../components/LeaderboardView';
+import { OnlineLeaderboard, type OnlineBoardState } from '../components/OnlineLeaderboard';
+import { SaveTransfer } from '../components/SaveTransfer';
+import { StageSelect, starsLabel } from '../components/StageSelect';
+import { challengeById, challengeCatalogue, comboMultiplier, emptyAchievementTally, dailyChallengeFor, dailyDateKey, describeObjective, difficulties, formatChallengeResult, hasScoredDaily, leaderboardEntryFor, leaderboardRank, newlyUnlockedAchievements, objectiveProgress, runModeOf, sanitizeInitials, scenarioKey, scenarioOf, stageByIndex, tallyAchievementEvents, type AchievementTally, type DifficultyKey, type GameEvent, type GameSettings, type GameState, type InputState, type PlayModeKey, type ReplayData, type RunScenario, type SaveData } from '../game/core';
+import { DragSteering } from '../game/input/drag';
+import { GamepadInput, MAX_DEADZONE } from '../game/input/gamepad';
 import { KeyboardInput } from '../game/input/keyboard';
 import { SfxEngine } from '../game/audio/sfx';
 import { VirtualJoystick } from '../game/input/joystick';
-import { loadSaveData, saveSaveData, updateAfterRun } from '../game/persistence/localStore';
+import { loadSaveData, recordDailyAttempt, recordDailyScore, saveSaveData, setLeaderboardInitials, unlockAchievements, updateAfterRun } from '../game/persistence/localStore';
+import { HttpLeaderboardService, loadPlayerSecret, OfflineSubmissionQueue, submitOrQueue, type LeaderboardService } from '../game/online/client';
+import { boardKeyFor, publicIdFor, runSummaryOf, type OnlineBoardKey, type OnlineEntry, type SubmitResult } from '../game/online/protocol';
+import { parseReplay, serializeReplay } from '../game/replay/replay';
+import { createTelemetrySink, TelemetryClient, type TelemetrySinkKind } from '../game/telemetry/client';
+import { runContextOf, runSnapshotOf } from '../game/telemetry/events';
 
 const modeLabels: Record<PlayModeKey, string> = {
   arcade: 'Arcade',
@@ -12,18 +26,20 @@ const modeLabels: Record<PlayModeKey, string> = {
   challenges: 'Challenges',
 };
 
-type AppEventHook = {
-  type:
-    | 'run_start'
-    | 'run_end'
-    | 'milestone'
-    | 'apex_hit'
-    | 'apex_kill'
-    | 'ad_slot_view';
-  mode: PlayModeKey;
-  difficulty: DifficultyKey;
-  value?: number;
-};
+/** Online play is opt-in per build: without a server URL the game stays fully local. */
+const leaderboardUrl: string | undefined = import.meta.env.VITE_LEADERBOARD_URL;
+const onlineService: LeaderboardService | null = leaderboardUrl ? new HttpLeaderboardService(leaderboardUrl) : null;
+const ONLINE_TOP_COUNT = 5;
+const ONLINE_AROUND_SPAN = 2;
+
+/** Analytics go nowhere unless the build names a sink; the player can still opt out in settings. */
+const telemetrySink = createTelemetrySink(
+  (import.meta.env.VITE_TELEMETRY_SINK ?? 'none') as TelemetrySinkKind,
+  import.meta.env.VITE_TELEMETRY_URL,
+);
+const TELEMETRY_FLUSH_MS = 15_000;
+/** How often the title and menu screens look for a new day's daily. */
+const DAILY_ROLLOVER_CHECK_MS = 30_000;
 
 export function App() {
   const [saveData, setSaveData] = useState<SaveData>(() => loadSaveData());
@@ -31,17 +47,63 @@ export function App() {
   const [toast, setToast] = useState<string>('');
   const [modeToast, setModeToast] = useState<string>('');
   const [menuOpen, setMenuOpen] = useState(false);
+  const [gamepadNames, setGamepadNames] = useState<string[]>([]);
+  const [replaying, setReplaying] = useState(false);
+  const [lastReplay, setLastReplay] = useState<ReplayData | null>(null);
+  const [lastRunScoredDaily, setLastRunScoredDaily] = useState(false);
+  const [replayCode, setReplayCode] = useState('');
+  /** Leaderboard id of the run that just ended, for the rank and initials prompt on the game-over card. */
+  const [lastEntryId, setLastEntryId] = useState<string | null>(null);
+  const [initialsDraft, setInitialsDraft] = useState('');
+  /** Online standings for the run that just ended; null when it was not submitted. */
+  const [onlineBoard, setOnlineBoard] = useState<OnlineBoardState | null>(null);
+  const [selectedStageIndex, setSelectedStageIndex] = useState(() => saveData.campaign.unlockedStage);
+  const [selectedChallengeId, setSelectedChallengeId] = useState(challengeCatalogue[0].id);
 
   const keyboardRef = useRef<KeyboardInput | null>(null);
+  const gamepadRef = useRef<GamepadInput | null>(null);
   const joystickRef = useRef<VirtualJoystick | null>(null);
+  const dragRef = useRef<DragSteering | null>(null);
   const sfxRef = useRef<SfxEngine | null>(null);
   const startRunRef = useRef(false);
   const restartRunRef = useRef(false);
   const togglePauseRef = useRef(false);
-  const appEventsRef = useRef<AppEventHook[]>([]);
+  const replayRequestRef = useRef<ReplayData | null>(null);
+  const stopReplayRef = useRef(false);
+  const telemetryRef = useRef<TelemetryClient | null>(null);
+  /** Latest state of the run in progress, reported as a quit if the page goes away mid-run. */
+  const liveRunRef = useRef<GameState | null>(null);
+  /** Date key of the daily run in progress when it is the day's scored attempt. */
+  const dailyAttemptRef = useRef<string | null>(null);
+  /** Achievement counters for the run in progress; null while replaying or between runs. */
+  const achievementTallyRef = useRef<AchievementTally | null>(null);
+  /** Unlocks already announced, so a frame that lands before the updated save renders cannot repeat one. */
+  const announcedAchievementsRef = useRef(new Set<string>());
+  const onlineQueueRef = useRef<OfflineSubmissionQueue | null>(null);
+  const playerSecretRef = useRef('');
+  /** The id the boards list this player under; known once the first run has been submitted. */
+  const publicIdRef = useRef('');
+  /** Bumped per submission so a slow response for an earlier run cannot overwrite a newer one. */
+  const onlineRequestRef = useRef(0);
+  /** The last run's online submission, so initials signed on the game-over card can follow it. */
+  const onlineSubmissionRef = useRef<{ board: OnlineBoardKey; result: Promise<SubmitResult | null> } | null>(null);
+  /**
+   * The daily the menu offers. Held in state rather than read from the clock on each render, so a
+   * run that crosses midnight keeps its date: a new scenario mid-run would reset it after its one
+   * scored attempt had been spent.
+   */
+  const [todayKey, setTodayKey] = useState(() => dailyDateKey());
+  const daily = useMemo(() => dailyChallengeFor(todayKey), [todayKey]);
+  const canRollDaily = !gameState || gameState.mode === 'title' || (menuOpen && gameState.mode === 'gameOver');
 
   if (!joystickRef.current) joystickRef.current = new VirtualJoystick();
+  if (!dragRef.current) dragRef.current = new DragSteering();
   if (!sfxRef.current) sfxRef.current = new SfxEngine();
+  if (!telemetryRef.current) telemetryRef.current = new TelemetryClient(telemetrySink, localStorage, saveData.settings.telemetryEnabled);
+  if (onlineService && !onlineQueueRef.current) {
+    onlineQueueRef.current = new OfflineSubmissionQueue(localStorage);
+    playerSecretRef.current = loadPlayerSecret(localStorage);
+  }
 
   useEffect(() => {
     const keyboard = new KeyboardInput(window);
@@ -49,10 +111,82 @@ export function App() {
     return () => keyboard.destroy(window);
   }, []);
 
+  useEffect(() => {
+    keyboardRef.current?.setBindings(saveData.settings.keyBindings);
+  }, [saveData.settings.keyBindings]);
+
+  const captureNextKey = useCallback((onKey: ((key: string) => void) | null) => {
+    keyboardRef.current?.captureNextKey(onKey);
+  }, []);
+
+  useEffect(() => {
+    const gamepad = new GamepadInput((name, connected) => {
+      setGamepadNames(gamepad.connectedPads());
+      setModeToast(connected ? `Controller connected: ${name}` : 'Controller disconnected');
+      // Losing the controller mid-run should not cost a life.
+      if (!connected && liveRunRef.current?.mode === 'playing') togglePauseRef.current = true;
+    }, window);
+    gamepadRef.current = gamepad;
+    return () => gamepad.destroy(window);
+  }, []);
+
+  useEffect(() => {
+    gamepadRef.current?.setOptions({
+      deadzone: saveData.settings.gamepadDeadzone,
+      responseCurve: saveData.settings.gamepadResponseCurve,
+    });
+  }, [saveData.settings.gamepadDeadzone, saveData.settings.gamepadResponseCurve]);
+
   useEffect(() => {
     saveSaveData(saveData);
   }, [saveData]);
 
+  useEffect(() => {
+    if (!canRollDaily) return;
+    const roll = () => setTodayKey(dailyDateKey());
+    roll();
+    const id = window.setInterval(roll, DAILY_ROLLOVER_CHECK_MS);
+    return () => window.clearInterval(id);
+  }, [canRollDaily]);
+
+  useEffect(() => {
+    telemetryRef.current?.setEnabled(saveData.settings.telemetryEnabled);
+  }, [saveData.settings.telemetryEnabled]);
+
+  useEffect(() => {
+    const telemetry = telemetryRef.current;
+    if (!telemetry) return;
+    const flush = () => { void telemetry.flush(); };
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flush();
+    };
+    const onPageHide = () => {
+      const run = liveRunRef.current;
+      if (run) telemetry.track('run_quit', runContextOf(run), { ...runSnapshotOf(run), paused: run.mode === 'paused' });
+      flush();
+    };
+    flush();
+    const id = window.setInterval(flush, TELEMETRY_FLUSH_MS);
+    window.addEventListener('online', flush);
+    window.addEventListener('pagehide', onPageHide);
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    return () => {
+      window.clearInterval(id);
+      window.removeEventListener('online', flush);
+      window.removeEventListener('pagehide', onPageHide);
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+    };
+  }, []);
+
+  useEffect(() => {
+    const queue = onlineQueueRef.current;
+    if (!onlineService || !queue) return;
+    const flush = () => { void queue.flush(onlineService); };
+    flush();
+    window.addEventListener('online', flush);
+    return () => window.removeEventListener('online', flush);
+  }, []);
+
   useEffect(() => {
     sfxRef.current?.updateThreatIntensity(gameState?.apexThreat.intensity ?? 0, saveData.settings.soundEnabled);
   }, [gameState?.apexThreat.intensity, saveData.settings.soundEnabled]);
@@ -91,64 +225,241 @@ export function App() {
     togglePauseRef.current = true;
   };
 
-  const joystick = joystickRef.current;
+  const watchReplay = (replay: ReplayData) => {
+    void sfxRef.current?.unlock();
+    replayRequestRef.current = replay;
+    setReplaying(true);
+    setMenuOpen(false);
+  };
+
+  const requestStopReplay = () => {
+    stopReplayRef.current = true;
+  };
+
+  const copyReplay = (replay: ReplayData) => {
+    void navigator.clipboard?.writeText(serializeReplay(replay))
+      .then(() => setToast('Replay copied'))
+      .catch(() => setToast('Copy failed'));
+  };
+
+  const playPastedReplay = () => {
+    const replay = parseReplay(replayCode.trim());
+    if (!replay) {
+      setModeToast('Replay code is not valid');
+      return;
+    }
+    setReplayCode('');
+    watchReplay(replay);
+  };
+
+  const dragMode = saveData.settings.controlMode === 'drag';
+  const touch = dragMode ? dragRef.current : joystickRef.current;
   const unlockAudio = () => { void sfxRef.current?.unlock(); };
   const onPointerDown = (e: ReactPointerEvent<HTMLDivElement>) => {
     unlockAudio();
-    joystick.onPointerDown(e.nativeEvent);
+    touch.onPointerDown(e.nativeEvent);
+  };
+  const onPointerMove = (e: ReactPointerEvent<HTMLDivElement>) => touch.onPointerMove(e.nativeEvent);
+  // Both sources hear releases, so switching modes mid-touch cannot leave one steering on its own.
+  const onPointerUp = (e: ReactPointerEvent<HTMLDivElement>) => {
+    joystickRef.current?.onPointerUp(e.nativeEvent);
+    dragRef.current?.onPointerUp(e.nativeEvent);
   };
-  const onPointerMove = (e: ReactPointerEvent<HTMLDivElement>) => joystick.onPointerMove(e.nativeEvent);
-  const onPointerUp = (e: ReactPointerEvent<HTMLDivElement>) => joystick.onPointerUp(e.nativeEvent);
 
-  const getInputState = (): InputState => {
+  const getInputState = (state: GameState, canvas: DOMRect | null): InputState => {
     const keyboard = keyboardRef.current;
-    const joystick = joystickRef.current;
+    const gamepad = gamepadRef.current;
+    gamepad?.poll();
     const k = keyboard?.readMovement() ?? { x: 0, y: 0 };
-    const j = joystick?.getMovement() ?? { x: 0, y: 0 };
-    const pausePressed = (keyboard?.consumePausePressed() ?? false);
-    if (pausePressed) togglePauseRef.current = true;
+    const j = (dragMode
+      ? dragRef.current?.getMovement(state.player.pos, canvas, state.view)
+      : joystickRef.current?.getMovement()) ?? { x: 0, y: 0 };
+    const g = gamepad?.readMovement() ?? { x: 0, y: 0 };
+    const keyboardPause = keyboard?.consumePausePressed() ?? false;
+    const gamepadPause = gamepad?.consumePressed('pause') ?? false;
+    if (keyboardPause || gamepadPause) togglePauseRef.current = true;
+    if (gamepad?.consumePressed('menu')) setMenuOpen((open) => !open);
     return {
-      movement: { x: k.x + j.x, y: k.y + j.y },
+      movement: { x: k.x + j.x + g.x, y: k.y + j.y + g.y },
       pausePressed: false,
     };
   };
 
-  const handleEvents = (events: GameEvent[]) => {
+  const trackAchievements = (events: GameEvent[], state: GameState) => {
+    const tally = achievementTallyRef.current;
+    if (!tally) return;
+    const next = tallyAchievementEvents(tally, events, state.run.timeSeconds);
+    achievementTallyRef.current = next;
+    const known = [...Object.keys(saveData.achievements.unlockedAt), ...announcedAchievementsRef.current];
+    const earned = newlyUnlockedAchievements(known, next, saveData.stats);
+    if (!earned.length) return;
+    for (const achievement of earned) announcedAchievementsRef.current.add(achievement.id);
+    setToast(`Achievement: ${earned.map((a) => a.name).join(', ')}`);
+    setSaveData((prev) => unlockAchievements(prev, earned.map((a) => a.id)));
+  };
+
+  const handleEvents = (events: GameEvent[], state: GameState) => {
     sfxRef.current?.playEvents(events, saveData.settings.soundEnabled);
     for (const e of events) {
       if (e.type === 'growth') setToast(`Growth tier ${e.sizeTier}`);
       if (e.type === 'extra-life') setToast('Extra life');
       if (e.type === 'milestone') setToast(`${e.value}k milestone`);
-      if (e.type === 'milestone') appEventsRef.current.push({ type: 'milestone', mode: saveData.selectedMode, difficulty, value: e.value });
-      if (e.type === 'apex-hit') appEventsRef.current.push({ type: 'apex_hit', mode: saveData.selectedMode, difficulty, value: e.points });
-      if (e.type === 'apex-killed') appEventsRef.current.push({ type: 'apex_kill', mode: saveData.selectedMode, difficulty, value: e.points });
+      if (e.type === 'stage-complete') setToast(`Stage clear ${starsLabel(e.stars)}`);
+      if (e.type === 'challenge-complete') setToast('Challenge complete');
+      if (replaying) continue;
+      if (e.type === 'milestone') telemetryRef.current?.track('milestone', runContextOf(state), { value: e.value });
+      if (e.type === 'apex-hit') telemetryRef.current?.track('apex_hit', runContextOf(state), { points: e.points });
+      if (e.type === 'apex-killed') telemetryRef.current?.track('apex_kill', runContextOf(state), { points: e.points });
+    }
+    if (!replaying) trackAchievements(events, state);
+  };
+
+  const handleState = (state: GameState) => {
+    setGameState(state);
+    if (!replaying && (state.mode === 'playing' || state.mode === 'paused')) liveRunRef.current = state;
+    // Time-based unlocks must not wait for the next event; event frames have already moved the clock.
+    if (!replaying && state.mode === 'playing' && achievementTallyRef.current?.timeSeconds !== state.run.timeSeconds) {
+      trackAchievements([], state);
     }
   };
 
-  const handleRunStarted = () => {
-    appEventsRef.current.push({ type: 'run_start', mode: saveData.selectedMode, difficulty });
-    setSaveData((prev) => ({
-      ...prev,
-      meta: { ...prev.meta, totalRuns: prev.meta.totalRuns + 1 },
-      stats: { ...prev.stats, runsStarted: prev.stats.runsStarted + 1 },
-    }));
+  const handleRunStarted = (state: GameState) => {
+    telemetryRef.current?.track('run_start', runContextOf(state), {
+      scenario: scenarioKey(scenarioOf(state)),
+      sizeTier: state.player.sizeTier,
+    });
+    achievementTallyRef.current = emptyAchievementTally(state.difficulty.key, state.player.sizeTier);
+    const scoredDaily = activeScenario?.type === 'daily' && !hasScoredDaily(saveData.challenges, activeScenario.daily.dateKey)
+      ? activeScenario.daily.dateKey
+      : null;
+    dailyAttemptRef.current = scoredDaily;
+    setSaveData((prev) => {
+      const next = {
+        ...prev,
+        meta: { ...prev.meta, totalRuns: prev.meta.totalRuns + 1 },
+        stats: { ...prev.stats, runsStarted: prev.stats.runsStarted + 1 },
+      };
+      return scoredDaily ? recordDailyAttempt(next, scoredDaily) : next;
+    });
   };
 
-  const handleRunEnded = (state: GameState) => {
-    appEventsRef.current.push({ type: 'run_end', mode: saveData.selectedMode, difficulty: state.difficulty.key, value: state.run.score });
-    setSaveData((prev) => updateAfterRun(prev, state.difficulty.key, state.run.score, state.run.timeSeconds, state.run.preyEaten, state.player.sizeTier));
+  const submitOnline = async (service: LeaderboardService, queue: OfflineSubmissionQueue, state: GameState, replay: ReplayData) => {
+    const request = onlineRequestRef.current + 1;
+    onlineRequestRef.current = request;
+    const update = (board: OnlineBoardState) => {
+      if (onlineRequestRef.current === request) setOnlineBoard(board);
+    };
+    update({ status: 'submitting', top: [], around: [] });
+    const playerSecret = playerSecretRef.current;
+    // Until the player signs this run (see `signOnline`), their most recent signature stands in.
+    const initials = [...saveData.leaderboard].sort((a, b) => b.date - a.date).find((e) => e.initials)?.initials ?? '';
+    const board = boardKeyFor(state.difficulty.key);
+    const submission = submitOrQueue(service, queue, { playerSecret, initials, replay, summary: runSummaryOf(state) });
+    onlineSubmissionRef.current = { board, result: submission };
+    try {
+      const result = await submission;
+      if (!result) {
+        update({ status: 'queued', top: [], around: [] });
+        return;
+      }
+      const publicId = await publicIdFor(playerSecret);
+      publicIdRef.current = publicId;
+      const [top, around] = await Promise.all([
+        service.top(board, ONLINE_TOP_COUNT),
+        service.around(board, publicId, ONLINE_AROUND_SPAN),
+      ]);
+      update({ status: result.accepted ? 'ready' : 'rejected', top, around });
+    } catch {
+      update({ status: 'unavailable', top: [], around: [] });
+    }
+  };
+
+  const signOnline = async (initials: string) => {
+    const submission = onlineSubmissionRef.current;
+    const queue = onlineQueueRef.current;
+    if (!onlineService || !queue || !submission) return;
+    const request = onlineRequestRef.current;
+    const playerSecret = playerSecretRef.current;
+    const result = await submission.result.catch(() => undefined);
+    if (result === undefined || (result && !result.accepted)) return;
+    if (result === null) queue.setInitials(playerSecret, initials);
+    try {
+      // A queued run may already have been flushed, so the server is asked either way.
+      if (!await onlineService.setInitials(submission.board, playerSecret, initials)) return;
+    } catch {
+      return;
+    }
+    if (onlineRequestRef.current !== request) return;
+    const rename = (entries: OnlineEntry[]) => entries.map((e) => (e.publicId === publicIdRef.current ? { ...e, initials } : e));
+    setOnlineBoard((prev) => prev && { ...prev, top: rename(prev.top), around: rename(prev.around) });
+  };
+
+  const handleRunEnded = (state: GameState, replay: ReplayData | null) => {
+    achievementTallyRef.current = null;
+    liveRunRef.current = null;
+    telemetryRef.current?.track('run_end', runContextOf(state), {
+      ...runSnapshotOf(state),
+      cause: state.run.endCause,
+      apexKills: state.run.apexKills,
+      bestCombo: state.run.bestCombo,
+    });
+    const endedAt = Date.now();
+    setLastEntryId(leaderboardEntryFor(state, endedAt).id);
+    setInitialsDraft('');
+    setLastReplay(replay);
+    setOnlineBoard(null);
+    onlineSubmissionRef.current = null;
+    if (onlineService && onlineQueueRef.current && replay && runModeOf(state) === 'arcade') {
+      void submitOnline(onlineService, onlineQueueRef.current, state, replay);
+    }
+    const scoredDaily = state.daily && dailyAttemptRef.current === state.daily.dateKey ? state.daily.dateKey : null;
+    dailyAttemptRef.current = null;
+    setLastRunScoredDaily(!!scoredDaily);
+    setSaveData((prev) => {
+      const next = updateAfterRun(prev, state, replay, endedAt);
+      return scoredDaily ? recordDailyScore(next, scoredDaily, state.run.score) : next;
+    });
   };
 
   const difficulty = saveData.selectedDifficulty;
   const selectedMode = saveData.selectedMode;
   const arcadeActive = selectedMode === 'arcade';
+  const campaignActive = selectedMode === 'campaign';
+  const challengesActive = selectedMode === 'challenges';
+  const activeStage = campaignActive ? stageByIndex(selectedStageIndex) : null;
+  const dailyActive = challengesActive && selectedChallengeId === DAILY_SELECTION_ID;
+  const activeChallenge = challengesActive && !dailyActive ? challengeById(selectedChallengeId) : null;
+  const activeScenario: RunScenario | null = activeStage
+    ? { type: 'stage', stage: activeStage }
+    : activeChallenge ? { type: 'challenge', challenge: activeChallenge }
+      : dailyActive ? { type: 'daily', daily } : null;
+  const runDifficulty = activeChallenge?.difficulty ?? (dailyActive ? daily.difficulty : difficulty);
+  const bestReplay = arcadeActive ? saveData.highScoreReplays[difficulty] : undefined;
+  const runStage = gameState?.stage ?? null;
+  const nextStage = runStage?.status === 'complete' ? stageByIndex(runStage.definition.index + 1) : null;
+  const stageProgress = gameState && runStage ? objectiveProgress(gameState, runStage.definition.objective) : null;
+  const runChallenge = gameState?.challenge ?? null;
+  const challengeProgress = gameState && runChallenge ? runChallenge.definition.progress(runChallenge.tally, gameState) : null;
+  const runTimeLimit = runStage?.definition.setup.timeLimitSeconds ?? runChallenge?.definition.setup.timeLimitSeconds;
+
+  const lastEntry = lastEntryId ? saveData.leaderboard.find((e) => e.id === lastEntryId) ?? null : null;
+  const lastRank = lastEntryId ? leaderboardRank(saveData.leaderboard, lastEntryId) : null;
+
+  const signLastEntry = () => {
+    if (!lastEntryId || !initialsDraft) return;
+    setSaveData((prev) => setLeaderboardInitials(prev, lastEntryId, initialsDraft));
+    void signOnline(initialsDraft);
+  };
+
+  const playNextStage = () => {
+    if (!nextStage) return;
+    setSelectedStageIndex(nextStage.index);
+    requestStart();
+  };
 
   const chooseMode = (mode: PlayModeKey) => {
     setSaveData((prev) => ({ ...prev, selectedMode: mode }));
-    appEventsRef.current.push({ type: 'ad_slot_view', mode, difficulty });
-    if (mode !== 'arcade') {
-      setModeToast(`${modeLabels[mode]} mode scaffolded; arcade gameplay active for now`);
-    }
+    telemetryRef.current?.track('ad_slot_view', { mode, difficulty }, {});
   };
 
   return (
@@ -161,57 +472,159 @@ export function App() {
     >
       <section className="game-panel">
         <GameCanvas
-          difficulty={difficulty}
+          difficulty={runDifficulty}
+          scenario={activeScenario}
           settings={saveData.settings}
           getInputState={getInputState}
-          shouldStartRun={() => startRunRef.current || !!keyboardRef.current?.consumeStartPressed()}
+          shouldStartRun={() => startRunRef.current || !!keyboardRef.current?.consumeStartPressed() || !!gamepadRef.current?.consumePressed('start')}
           consumeStartRun={() => { startRunRef.current = false; }}
-          shouldRestartRun={() => restartRunRef.current || !!keyboardRef.current?.consumeStartPressed()}
+          shouldRestartRun={() => restartRunRef.current || !!keyboardRef.current?.consumeStartPressed() || !!gamepadRef.current?.consumePressed('restart')}
           consumeRestartRun={() => { restartRunRef.current = false; }}
           shouldTogglePause={() => togglePauseRef.current}
           consumeTogglePause={() => { togglePauseRef.current = false; }}
-          onState={setGameState}
+          onState={handleState}
           onEvents={handleEvents}
           onRunStarted={handleRunStarted}
           onRunEnded={handleRunEnded}
+          takeReplayRequest={() => {
+            const replay = replayRequestRef.current;
+            replayRequestRef.current = null;
+            return replay;
+          }}
+          shouldStopReplay={() => stopReplayRef.current}
+          consumeStopReplay={() => { stopReplayRef.current = false; }}
+          onReplayEnded={() => setReplaying(false)}
         />
 
         <div className="overlay-stack" aria-hidden="true">
-          {gameState?.mode === 'title' && (
+          {replaying && (
+            <div className="replay-badge">
+              <span>Replay</span>
+              <button type="button" onClick={requestStopReplay}>Stop</button>
+            </div>
+          )}
+          {!replaying && gameState?.mode === 'title' && (
             <div className="center-card">
-              <h1>{selectedMode === 'arcade' ? 'Reef Rush' : `${modeLabels[selectedMode]} Preview`}</h1>
-              <p>
-                {arcadeActive
-                  ? 'Eat smaller swimmers. Avoid larger predators. Grow every 1000 points.'
-                  : 'Mode framework is enabled. Arcade gameplay loop is active while campaign/challenges content is being authored.'}
-              </p>
-              <button type="button" onClick={requestStart}>Start Run</button>
+              <h1>{arcadeActive ? 'Reef Rush' : modeLabels[selectedMode]}</h1>
+              {campaignActive && (
+                <StageSelect
+                  progress={saveData.campaign}
+                  selectedIndex={selectedStageIndex}
+                  onSelect={setSelectedStageIndex}
+                />
+              )}
+              {challengesActive && (
+                <ChallengeSelect
+                  progress={saveData.challenges}
+                  daily={daily}
+                  selectedId={selectedChallengeId}
+                  onSelect={setSelectedChallengeId}
+                />
+              )}
+              {arcadeActive && <p>Eat smaller swimmers. Avoid larger predators. Grow every 1000 points.</p>}
+              <button type="button" onClick={requestStart}>
+                {campaignActive ? 'Start Stage' : challengesActive ? 'Start Challenge' : 'Start Run'}
+              </button>
+              {bestReplay && (
+                <button type="button" className="secondary" onClick={() => watchReplay(bestReplay)}>Watch Best Run</button>
+              )}
             </div>
           )}
-          {gameState?.mode === 'paused' && (
+          {!replaying && gameState?.mode === 'paused' && (
             <div className="center-card compact">
               <h2>Paused</h2>
               <button type="button" onClick={requestPause}>Resume</button>
             </div>
           )}
-          {gameState?.mode === 'gameOver' && (
+          {!replaying && gameState?.mode === 'gameOver' && (
             <div className="center-card compact">
-              <h2>Game Over</h2>
-              <p>Score {gameState.run.score}</p>
+              <h2>
+                {runStage?.status === 'complete' ? 'Stage Clear'
+                  : runStage ? 'Stage Failed'
+                    : runChallenge?.status === 'complete' ? 'Challenge Complete'
+                      : runChallenge ? 'Challenge Failed'
+                        : gameState.daily ? `Daily ${gameState.daily.dateKey}` : 'Game Over'}
+              </h2>
+              {gameState.daily && (
+                <p>
+                  {lastRunScoredDaily
+                    ? `Scored run · streak ${saveData.challenges.dailyStreak}`
+                    : 'Practice run (unscored)'}
+                </p>
+              )}
+              {runStage?.status === 'complete' && <p className="stage-stars large">{starsLabel(runStage.stars)}</p>}
+              {runChallenge?.status === 'complete' && (
+                <p>{runChallenge.definition.metric.label}: {formatChallengeResult(runChallenge.definition, runChallenge.result)}</p>
+              )}
+              {(runStage ?? runChallenge)?.status === 'failed' && gameState.player.lives > 0 && (
+                <p>{runChallenge?.definition.failed?.(runChallenge.tally, gameState) ? 'Challenge rule broken' : 'Out of time'}</p>
+              )}
+              <p>Score {gameState.run.score}{gameState.run.bestCombo >= 3 && ` · best combo ${gameState.run.bestCombo}`}</p>
+              {lastEntry && lastRank && (
+                <form className="initials-row" onSubmit={(e) => { e.preventDefault(); signLastEntry(); }}>
+                  <span>#{lastRank} {modeLabels[lastEntry.mode]} · {difficulties[lastEntry.difficulty].label}</span>
+                  {lastEntry.initials ? (
+                    <strong>{lastEntry.initials}</strong>
+                  ) : (
+                    <>
+                      <input
+                        type="text"
+                        className="initials-input"
+                        placeholder="AAA"
+                        maxLength={3}
+                        value={initialsDraft}
+                        onChange={(e) => setInitialsDraft(sanitizeInitials(e.target.value))}
+                        aria-label="Initials"
+                      />
+                      <button type="submit" className="secondary" disabled={!initialsDraft}>Sign</button>
+                    </>
+                  )}
+                </form>
+              )}
+              {onlineBoard && <OnlineLeaderboard board={onlineBoard} publicId={publicIdRef.current} />}
               <button type="button" onClick={requestRestart}>Retry</button>
+              {nextStage && nextStage.index <= saveData.campaign.unlockedStage && (
+                <button type="button" onClick={playNextStage}>Next Stage</button>
+              )}
+              {lastReplay && (
+                <div className="card-actions">
+                  <button type="button" className="secondary" onClick={() => watchReplay(lastReplay)}>Watch</button>
+                  <button type="button" className="secondary" onClick={() => copyReplay(lastReplay)}>Copy Replay</button>
+                </div>
+              )}
             </div>
           )}
         </div>
 
         <div className="hud">
           <div>Score: {gameState?.run.score ?? 0}</div>
-          <div>Lives: {gameState?.player.lives ?? difficulties[difficulty].startingLives}</div>
+          <div>Lives: {gameState?.player.lives ?? difficulties[runDifficulty].startingLives}</div>
           <div>Size: {gameState?.player.sizeTier ?? 1}</div>
-          <div>High: {saveData.highScores[difficulty]}</div>
+          {gameState && gameState.run.comboCount >= 2 && (
+            <div className="hud-combo">
+              Combo {gameState.run.comboCount} · x{comboMultiplier(gameState.run.comboCount)}
+            </div>
+          )}
+          {runStage && stageProgress ? (
+            <>
+              <div>
+                {describeObjective(runStage.definition.objective)}: {Math.min(stageProgress.current, stageProgress.target)}/{stageProgress.target}
+              </div>
+            </>
+          ) : runChallenge && challengeProgress ? (
+            <div>
+              {runChallenge.definition.name}: {Math.min(challengeProgress.current, challengeProgress.target)}/{challengeProgress.target}
+            </div>
+          ) : (
+            <div>High: {saveData.highScores[difficulty]}</div>
+          )}
+          {runTimeLimit !== undefined && (
+            <div>Time: {Math.max(0, Math.ceil(runTimeLimit - (gameState?.run.timeSeconds ?? 0)))}s</div>
+          )}
         </div>
 
         <div className="hud-actions">
-          {gameState?.mode === 'playing' && (
+          {(gameState?.mode === 'playing' || replaying) && (
             <button type="button" className="hud-btn" onClick={requestPause} aria-label="Pause">&#9646;&#9646;</button>
           )}
           <button type="button" className="hud-btn" onClick={() => setMenuOpen(true)} aria-label="Menu">&#9776;</button>
@@ -258,6 +671,7 @@ export function App() {
                 ['musicEnabled', 'Music'],
                 ['hapticsEnabled', 'Haptics'],
                 ['reducedMotion', 'Reduced Motion'],
+                ['telemetryEnabled', 'Share Anonymous Stats'],
               ] as const).map(([key, label]) => (
                 <label key={key} className="toggle-row">
                   <span>{label}</span>
@@ -271,6 +685,97 @@ export function App() {
                   />
                 </label>
               ))}
+              <label className="toggle-row">
+                <span>Touch Steering</span>
+                <select
+                  value={saveData.settings.controlMode}
+                  onChange={(e) => setSaveData((prev) => ({
+                    ...prev,
+                    settings: { ...prev.settings, controlMode: e.target.value as GameSettings['controlMode'] },
+                  }))}
+                  aria-label="Touch steering"
+                >
+                  <option value="joystick">Virtual joystick</option>
+                  <option value="drag">Follow finger</option>
+                </select>
+              </label>
+              <h3>Keyboard</h3>
+              <KeyBindingsPanel
+                bindings={saveData.settings.keyBindings}
+                onChange={(keyBindings) => setSaveData((prev) => ({ ...prev, settings: { ...prev.settings, keyBindings } }))}
+                captureNextKey={captureNextKey}
+                onMessage={setModeToast}
+              />
+              <h3>Controller</h3>
+              <p className="save-note">
+                {gamepadNames.length ? gamepadNames.join(', ') : 'No controller detected. Press a button on it to connect.'}
+              </p>
+              <label className="toggle-row">
+                <span>Stick Deadzone</span>
+                <input
+                  type="range"
+                  min={0}
+                  max={MAX_DEADZONE}
+                  step={0.05}
+                  value={saveData.settings.gamepadDeadzone}
+                  onChange={(e) => setSaveData((prev) => ({
+                    ...prev,
+                    settings: { ...prev.settings, gamepadDeadzone: Number(e.target.value) },
+                  }))}
+                />
+              </label>
+              <label className="toggle-row">
+                <span>Stick Precision</span>
+                <input
+                  type="range"
+                  min={1}
+                  max={3}
+                  step={0.25}
+                  value={saveData.settings.gamepadResponseCurve}
+                  onChange={(e) => setSaveData((prev) => ({
+                    ...prev,
+                    settings: { ...prev.settings, gamepadResponseCurve: Number(e.target.value) },
+                  }))}
+                />
+              </label>
+              <h3>Save Data</h3>
+              <SaveTransfer save={saveData} onApply={setSaveData} onMessage={setModeToast} />
+            </div>
+
+            <div className="menu-section">
+              <h3>Replays</h3>
+              {bestReplay && (
+                <label>
+                  <span>Best {difficulties[difficulty].label} run ({bestReplay.finalScore})</span>
+                  <button type="button" onClick={() => watchReplay(bestReplay)}>Watch</button>
+                </label>
+              )}
+              <label>
+                <input
+                  type="text"
+                  className="replay-code"
+                  placeholder="Paste replay code"
+                  value={replayCode}
+                  onChange={(e) => setReplayCode(e.target.value)}
+                />
+                <button type="button" onClick={playPastedReplay} disabled={!replayCode.trim()}>Play</button>
+              </label>
+            </div>
+
+            <div className="menu-section">
+              <h3>Leaderboard</h3>
+              <LeaderboardView
+                entries={saveData.leaderboard}
+                modeLabels={modeLabels}
+                initialMode={selectedMode}
+                initialDifficulty={difficulty}
+                highlightId={lastEntryId}
+              />
+            </div>
+
+            <div className="menu-section">
+              <h3>Achievements</h3>
+              <AchievementsPanel progress={saveData.achievements} stats={saveData.stats} />
             </div>
 
             <div className="menu-section">
@@ -288,7 +793,11 @@ export function App() {
       )}
 
       <div className="touch-joystick">
-        {(() => {
+        {dragMode ? (() => {
+          const snap = dragRef.current?.snapshot();
+          if (!snap?.active) return null;
+          return <div className={`drag-target${snap.arrived ? ' arrived' : ''}`} style={{ left: snap.point.x, top: snap.point.y }} />;
+        })() : (() => {
           const snap = joystickRef.current?.snapshot();
           if (!snap?.active) return null;
           return (
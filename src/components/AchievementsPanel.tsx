@@ -0,0 +1,35 @@
+import { achievementCatalogue, emptyAchievementTally, type AchievementProgress, type Stats } from '../game/core';
+
+type Props = {
+  progress: AchievementProgress;
+  stats: Stats;
+};
+
+const formatUnlockDate = (at: number) => new Date(at).toLocaleDateString();
+
+export function AchievementsPanel({ progress, stats }: Props) {
+  const unlockedCount = achievementCatalogue.filter((a) => progress.unlockedAt[a.id] !== undefined).length;
+  // Lifetime goals read saved stats only; between runs there is no live tally to add.
+  const idle = emptyAchievementTally('normal');
+  return (
+    <div className="achievements">
+      <p className="achievements-count">{unlockedCount}/{achievementCatalogue.length} unlocked</p>
+      <ul className="achievement-list">
+        {achievementCatalogue.map((achievement) => {
+          const at = progress.unlockedAt[achievement.id];
+          const counter = at === undefined ? achievement.progress?.(idle, stats) : undefined;
+          return (
+            <li key={achievement.id} className={`achievement-row${at !== undefined ? ' unlocked' : ''}`}>
+              <span className="achievement-name">{at !== undefined ? '🏆' : '🔒'} {achievement.name}</span>
+              <span className="achievement-detail">
+                {achievement.description}
+                {at !== undefined && ` · ${formatUnlockDate(at)}`}
+                {counter && ` · ${Math.min(counter.current, counter.target)}/${counter.target}`}
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import {
+  challengeCatalogue,
+  currentDailyStreak,
+  difficulties,
+  formatChallengeResult,
+  hasScoredDaily,
+  type ChallengeProgress,
+  type DailyDefinition,
+} from '../game/core';
+
+/** Selection id for the date-seeded daily run, listed above the catalogue. */
+export const DAILY_SELECTION_ID = 'daily';
+
+type Props = {
+  progress: ChallengeProgress;
+  daily: DailyDefinition;
+  selectedId: string;
+  onSelect: (id: string) => void;
+};
+
+function DailyDetails({ progress, daily }: Pick<Props, 'progress' | 'daily'>) {
+  const scored = hasScoredDaily(progress, daily.dateKey);
+  return (
+    <>
+      <p>Same seed for everyone today. Modifiers: {daily.modifiers.map((m) => m.label).join(', ')}.</p>
+      <p className="challenge-meta">
+        Streak {currentDailyStreak(progress, daily.dateKey)} · {scored
+          ? `Today's score ${progress.dailyLastScore} (practice runs are unscored)`
+          : 'Scored attempt available'}
+      </p>
+    </>
+  );
+}
+
+export function ChallengeSelect({ progress, daily, selectedId, onSelect }: Props) {
+  const dailySelected = selectedId === DAILY_SELECTION_ID;
+  const selected = challengeCatalogue.find((c) => c.id === selectedId) ?? challengeCatalogue[0];
+  const best = progress.bestById[selected.id];
+  return (
+    <div className="challenge-select">
+      <ul className="challenge-list">
+        <li>
+          <button
+            type="button"
+            className={`challenge-row daily${dailySelected ? ' selected' : ''}`}
+            onClick={() => onSelect(DAILY_SELECTION_ID)}
+          >
+            <span>Daily · {daily.dateKey}</span>
+            <span className="challenge-done">{hasScoredDaily(progress, daily.dateKey) ? '✓' : ''}</span>
+          </button>
+        </li>
+        {challengeCatalogue.map((challenge) => (
+          <li key={challenge.id}>
+            <button
+              type="button"
+              className={`challenge-row${!dailySelected && challenge.id === selected.id ? ' selected' : ''}`}
+              onClick={() => onSelect(challenge.id)}
+            >
+              <span>{challenge.name}</span>
+              <span className="challenge-done">{progress.completedIds.includes(challenge.id) ? '✓' : ''}</span>
+            </button>
+          </li>
+        ))}
+      </ul>
+      {dailySelected ? (
+        <DailyDetails progress={progress} daily={daily} />
+      ) : (
+        <>
+          <p>{selected.description}</p>
+          <p className="challenge-meta">
+            {selected.difficulty && <span>{difficulties[selected.difficulty].label} only · </span>}
+            {selected.metric.label}: {best === undefined ? '—' : formatChallengeResult(selected, best)}
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,14 +1,16 @@
 import { useEffect, useRef } from 'react';
 import Phaser from 'phaser';
 import { GameScene, type SceneBridge } from '../game/phaser/GameScene';
-import type { DifficultyKey, GameEvent, GameState, GameSettings, InputState } from '../game/core';
+import type { DifficultyKey, GameEvent, GameState, GameSettings, InputState, ReplayData, RunScenario } from '../game/core';
 import type { JoystickSnapshot, VirtualJoystick } from '../game/input/joystick';
 import { reefTheme } from '../game/theme';
 
 type Props = {
   difficulty: DifficultyKey;
+  scenario: RunScenario | null;
   settings: GameSettings;
-  getInputState: () => InputState;
+  /** `canvas` is the game canvas's client box, for mapping touches into the world; null before it mounts. */
+  getInputState: (state: GameState, canvas: DOMRect | null) => InputState;
   shouldStartRun: () => boolean;
   consumeStartRun: () => void;
   shouldRestartRun: () => boolean;
@@ -16,9 +18,13 @@ type Props = {
   shouldTogglePause: () => boolean;
   consumeTogglePause: () => void;
   onState: (state: GameState) => void;
-  onEvents: (events: GameEvent[]) => void;
-  onRunStarted: () => void;
-  onRunEnded: (state: GameState) => void;
+  onEvents: (events: GameEvent[], state: GameState) => void;
+  onRunStarted: (state: GameState) => void;
+  onRunEnded: (state: GameState, replay: ReplayData | null) => void;
+  takeReplayRequest: () => ReplayData | null;
+  shouldStopReplay: () => boolean;
+  consumeStopReplay: () => void;
+  onReplayEnded: () => void;
 };
 
 export function GameCanvas(props: Props) {
@@ -29,11 +35,12 @@ export function GameCanvas(props: Props) {
   const bridgeRef = useRef<SceneBridge | null>(null);
   if (!bridgeRef.current) {
     bridgeRef.current = {
-      getInputState: () => propsRef.current.getInputState(),
+      getInputState: (state) => propsRef.current.getInputState(state, gameRef.current?.canvas?.getBoundingClientRect() ?? null),
       onState: (state) => propsRef.current.onState(state),
-      onEvents: (events) => propsRef.current.onEvents(events),
-      onRunStarted: () => propsRef.current.onRunStarted(),
-      onRunEnded: (state) => propsRef.current.onRunEnded(state),
+      onEvents: (events, state) => propsRef.current.onEvents(events, state),
+      onRunStarted: (state) => propsRef.current.onRunStarted(state),
+      onRunEnded: (state, replay) => propsRef.current.onRunEnded(state, replay),
+      onReplayEnded: () => propsRef.current.onReplayEnded(),
       shouldStartRun: () => propsRef.current.shouldStartRun(),
       consumeStartRun: () => propsRef.current.consumeStartRun(),
       shouldRestartRun: () => propsRef.current.shouldRestartRun(),
@@ -41,6 +48,11 @@ export function GameCanvas(props: Props) {
       shouldTogglePause: () => propsRef.current.shouldTogglePause(),
       consumeTogglePause: () => propsRef.current.consumeTogglePause(),
       getDifficulty: () => propsRef.current.difficulty,
+      getScenario: () => propsRef.current.scenario,
+      getSettings: () => propsRef.current.settings,
+      takeReplayRequest: () => propsRef.current.takeReplayRequest(),
+      shouldStopReplay: () => propsRef.current.shouldStopReplay(),
+      consumeStopReplay: () => propsRef.current.consumeStopReplay(),
     };
   }
 
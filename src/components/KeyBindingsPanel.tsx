@@ -0,0 +1,113 @@
+import { useEffect, useState } from 'react';
+import {
+  assignKey,
+  clearKey,
+  defaultKeyBindings,
+  findBindingConflicts,
+  keyActions,
+  keyBindingPresets,
+  keyLabel,
+  KEYS_PER_ACTION,
+  matchingPreset,
+  type KeyAction,
+  type KeyBindingPreset,
+  type KeyBindings,
+} from '../game/core';
+
+type Props = {
+  bindings: KeyBindings;
+  onChange: (next: KeyBindings) => void;
+  /** Routes the next key press to the callback instead of the game; null cancels. */
+  captureNextKey: (onKey: ((key: string) => void) | null) => void;
+  onMessage: (message: string) => void;
+};
+
+type Slot = { action: KeyAction; slot: number };
+
+const labelOf = (action: KeyAction) => keyActions.find((a) => a.action === action)?.label ?? action;
+
+export function KeyBindingsPanel({ bindings, onChange, captureNextKey, onMessage }: Props) {
+  const [listening, setListening] = useState<Slot | null>(null);
+  const preset = matchingPreset(bindings);
+  const conflicts = findBindingConflicts(bindings);
+  const conflicted = new Set(conflicts.flatMap((c) => c.actions));
+
+  // Closing the menu mid-capture must not leave the keyboard swallowing the next press.
+  useEffect(() => () => captureNextKey(null), [captureNextKey]);
+
+  const listen = (target: Slot) => {
+    if (listening?.action === target.action && listening.slot === target.slot) {
+      captureNextKey(null);
+      setListening(null);
+      return;
+    }
+    setListening(target);
+    captureNextKey((key) => {
+      setListening(null);
+      const { bindings: next, displaced } = assignKey(bindings, target.action, target.slot, key);
+      onChange(next);
+      if (displaced) onMessage(`${keyLabel(key)} moved from ${labelOf(displaced)} to ${labelOf(target.action)}`);
+    });
+  };
+
+  const replaceAll = (next: KeyBindings) => {
+    captureNextKey(null);
+    setListening(null);
+    onChange(next);
+  };
+
+  return (
+    <div className="key-bindings">
+      <label className="toggle-row">
+        <span>Layout</span>
+        <select
+          value={preset ?? ''}
+          onChange={(e) => { if (e.target.value) replaceAll(keyBindingPresets[e.target.value as KeyBindingPreset].bindings); }}
+          aria-label="Keyboard layout"
+        >
+          {!preset && <option value="">Custom</option>}
+          {(Object.keys(keyBindingPresets) as KeyBindingPreset[]).map((key) => (
+            <option key={key} value={key}>{keyBindingPresets[key].label}</option>
+          ))}
+        </select>
+      </label>
+      {keyActions.map(({ action, label }) => (
+        <div key={action} className={`key-binding-row${conflicted.has(action) ? ' conflict' : ''}`}>
+          <span>{label}</span>
+          {Array.from({ length: KEYS_PER_ACTION }, (_, slot) => {
+            const key = bindings[action][slot];
+            const active = listening?.action === action && listening.slot === slot;
+            return (
+              <span key={slot} className="key-binding-slot">
+                <button type="button" className={active ? 'listening' : 'secondary'} onClick={() => listen({ action, slot })}>
+                  {active ? 'Press a key…' : key ? keyLabel(key) : '—'}
+                </button>
+                {key && !active && (
+                  <button
+                    type="button"
+                    className="key-binding-clear"
+                    onClick={() => onChange(clearKey(bindings, action, slot))}
+                    aria-label={`Unbind ${keyLabel(key)} from ${label}`}
+                  >
+                    &times;
+                  </button>
+                )}
+              </span>
+            );
+          })}
+        </div>
+      ))}
+      {conflicts.map(({ key, actions }) => (
+        <p key={key} className="save-note key-binding-warning">
+          {keyLabel(key)} is bound to {actions.map(labelOf).join(' and ')}
+        </p>
+      ))}
+      {keyActions.some(({ action }) => bindings[action].length === 0) && (
+        <p className="save-note key-binding-warning">Some actions have no key.</p>
+      )}
+      <button type="button" className="secondary" onClick={() => replaceAll(defaultKeyBindings)} disabled={preset === 'qwerty'}>
+        Reset to Defaults
+      </button>
+    </div>
+  );
+}
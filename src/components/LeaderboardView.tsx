@@ -0,0 +1,71 @@
+import { useState } from 'react';
+import {
+  describeRunEndCause,
+  difficulties,
+  leaderboardFor,
+  type DifficultyKey,
+  type LeaderboardEntry,
+  type PlayModeKey,
+} from '../game/core';
+
+type Props = {
+  entries: LeaderboardEntry[];
+  modeLabels: Record<PlayModeKey, string>;
+  initialMode: PlayModeKey;
+  initialDifficulty: DifficultyKey;
+  /** Highlighted row, e.g. the run that just ended. */
+  highlightId?: string | null;
+};
+
+const formatDuration = (seconds: number) => `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+
+export function LeaderboardView({ entries, modeLabels, initialMode, initialDifficulty, highlightId }: Props) {
+  const [mode, setMode] = useState(initialMode);
+  const [difficulty, setDifficulty] = useState(initialDifficulty);
+  const rows = leaderboardFor(entries, mode, difficulty);
+  return (
+    <div className="leaderboard">
+      <div className="leaderboard-filters">
+        <select value={mode} onChange={(e) => setMode(e.target.value as PlayModeKey)} aria-label="Mode">
+          {Object.entries(modeLabels).map(([key, label]) => (
+            <option key={key} value={key}>{label}</option>
+          ))}
+        </select>
+        <select value={difficulty} onChange={(e) => setDifficulty(e.target.value as DifficultyKey)} aria-label="Difficulty">
+          {Object.values(difficulties).map((d) => (
+            <option key={d.key} value={d.key}>{d.label}</option>
+          ))}
+        </select>
+      </div>
+      {rows.length === 0 ? (
+        <p className="save-note">No runs recorded yet.</p>
+      ) : (
+        <table className="leaderboard-table">
+          <thead>
+            <tr><th>#</th><th>Name</th><th>Score</th><th>Time</th><th>Size</th><th>Apex</th><th>End</th><th>Date</th></tr>
+          </thead>
+          <tbody>
+            {rows.map((entry, i) => (
+              <tr key={entry.id} className={entry.id === highlightId ? 'highlight' : undefined}>
+                <td>{i + 1}</td>
+                <td>{entry.initials || '—'}</td>
+                <td>{entry.score}</td>
+                {entry.legacy ? (
+                  <td colSpan={5} className="leaderboard-legacy">Earlier high score</td>
+                ) : (
+                  <>
+                    <td>{formatDuration(entry.durationSeconds)}</td>
+                    <td>{entry.sizeTier}</td>
+                    <td>{entry.apexKills}</td>
+                    <td>{describeRunEndCause(entry.cause)}</td>
+                    <td>{new Date(entry.date).toLocaleDateString()}</td>
+                  </>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
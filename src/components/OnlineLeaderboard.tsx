@@ -0,0 +1,70 @@
+import type { OnlineEntry } from '../game/online/protocol';
+
+export type OnlineBoardStatus = 'submitting' | 'ready' | 'queued' | 'rejected' | 'unavailable';
+
+export type OnlineBoardState = {
+  status: OnlineBoardStatus;
+  top: OnlineEntry[];
+  /** The player's own row with its neighbours; empty until they have an accepted run. */
+  around: OnlineEntry[];
+};
+
+type Props = {
+  board: OnlineBoardState;
+  /** The player's own `publicId`, whose rows are highlighted. */
+  publicId: string;
+};
+
+const statusLines: Record<OnlineBoardStatus, string> = {
+  submitting: 'Submitting run…',
+  ready: '',
+  queued: 'Offline — run will be submitted when you reconnect.',
+  rejected: 'Run could not be verified by the server.',
+  unavailable: 'Online leaderboard unavailable.',
+};
+
+function EntryRows({ entries, publicId }: { entries: OnlineEntry[]; publicId: string }) {
+  return (
+    <>
+      {entries.map((entry) => (
+        <tr key={entry.publicId} className={entry.publicId === publicId ? 'highlight' : undefined}>
+          <td>{entry.rank}</td>
+          <td>{entry.initials || '—'}</td>
+          <td>{entry.score}</td>
+          <td>{entry.sizeTier}</td>
+        </tr>
+      ))}
+    </>
+  );
+}
+
+export function OnlineLeaderboard({ board, publicId }: Props) {
+  const lastTopRank = board.top.at(-1)?.rank ?? 0;
+  // Rows already shown in the top list are not repeated below it.
+  const around = board.around.filter((entry) => entry.rank > lastTopRank);
+  const status = statusLines[board.status];
+  return (
+    <div className="online-board">
+      <h3>Online</h3>
+      {status && <p className="save-note">{status}</p>}
+      {board.top.length > 0 && (
+        <table className="leaderboard-table">
+          <thead>
+            <tr><th>#</th><th>Name</th><th>Score</th><th>Size</th></tr>
+          </thead>
+          <tbody>
+            <EntryRows entries={board.top} publicId={publicId} />
+            {around.length > 0 && (
+              <>
+                {around[0].rank > lastTopRank + 1 && (
+                  <tr className="online-gap"><td colSpan={4}>…</td></tr>
+                )}
+                <EntryRows entries={around} publicId={publicId} />
+              </>
+            )}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
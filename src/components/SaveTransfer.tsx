@@ -0,0 +1,131 @@
+import { Fragment, useRef, useState, type ChangeEvent } from 'react';
+import type { SaveData } from '../game/core';
+import {
+  applySaveImport,
+  describeSaveChanges,
+  exportSaveCode,
+  exportSaveFile,
+  parseSaveImport,
+  saveFileName,
+  type SaveImport,
+  type SaveImportStrategy,
+} from '../game/persistence/saveTransfer';
+
+type Props = {
+  save: SaveData;
+  onApply: (next: SaveData) => void;
+  onMessage: (message: string) => void;
+};
+
+export function SaveTransfer({ save, onApply, onMessage }: Props) {
+  const [code, setCode] = useState('');
+  const [pending, setPending] = useState<SaveImport | null>(null);
+  const [strategy, setStrategy] = useState<SaveImportStrategy>('merge');
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  const downloadFile = () => {
+    const url = URL.createObjectURL(new Blob([exportSaveFile(save)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = saveFileName();
+    link.click();
+    // Revoking in the same tick can cancel the download in some browsers (Safari).
+    window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const copyCode = () => {
+    void navigator.clipboard?.writeText(exportSaveCode(save))
+      .then(() => onMessage('Save code copied'))
+      .catch(() => onMessage('Copy failed'));
+  };
+
+  const stageImport = (text: string) => {
+    const result = parseSaveImport(text);
+    if (!result.ok) {
+      onMessage(result.error);
+      return;
+    }
+    setPending(result.value);
+    setStrategy('merge');
+  };
+
+  const readFile = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    void file.text().then(stageImport).catch(() => onMessage('Could not read file'));
+  };
+
+  const confirmImport = () => {
+    if (!pending) return;
+    onApply(applySaveImport(save, pending.data, strategy));
+    setPending(null);
+    setCode('');
+    onMessage(strategy === 'merge' ? 'Save merged' : 'Save replaced');
+  };
+
+  if (pending) {
+    const changes = describeSaveChanges(save, applySaveImport(save, pending.data, strategy));
+    return (
+      <div className="save-transfer">
+        <div className="save-strategy">
+          {(['merge', 'replace'] as const).map((key) => (
+            <button
+              key={key}
+              type="button"
+              className={strategy === key ? undefined : 'secondary'}
+              onClick={() => setStrategy(key)}
+            >
+              {key === 'merge' ? 'Merge' : 'Replace'}
+            </button>
+          ))}
+        </div>
+        <p className="save-note">
+          {strategy === 'merge'
+            ? 'Keeps the best of both saves.'
+            : 'Overwrites progress on this device. Settings are kept.'}
+          {pending.source === 'code' && ' Share codes do not carry replays.'}
+        </p>
+        {changes.length ? (
+          <div className="stats-grid">
+            {changes.map((c) => (
+              <Fragment key={c.label}>
+                <span>{c.label}</span><strong>{c.from} → {c.to}</strong>
+              </Fragment>
+            ))}
+          </div>
+        ) : (
+          <p className="save-note">No changes to progress.</p>
+        )}
+        {pending.issues.length > 0 && (
+          <p className="save-note">{pending.issues.length} invalid field(s) in the import were reset to defaults.</p>
+        )}
+        <div className="card-actions">
+          <button type="button" onClick={confirmImport}>Import</button>
+          <button type="button" className="secondary" onClick={() => setPending(null)}>Cancel</button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="save-transfer">
+      <div className="card-actions">
+        <button type="button" className="secondary" onClick={downloadFile}>Export File</button>
+        <button type="button" className="secondary" onClick={copyCode}>Copy Code</button>
+        <button type="button" className="secondary" onClick={() => fileInputRef.current?.click()}>Import File</button>
+      </div>
+      <input ref={fileInputRef} type="file" accept="application/json,.json" hidden onChange={readFile} />
+      <label>
+        <input
+          type="text"
+          className="replay-code"
+          placeholder="Paste save code"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+        />
+        <button type="button" onClick={() => stageImport(code)} disabled={!code.trim()}>Load</button>
+      </label>
+    </div>
+  );
+}
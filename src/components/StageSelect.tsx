@@ -0,0 +1,40 @@
+import { campaignStages, describeObjective, type CampaignProgress } from '../game/core';
+
+type Props = {
+  progress: CampaignProgress;
+  selectedIndex: number;
+  onSelect: (index: number) => void;
+};
+
+export const starsLabel = (stars: number) => '★'.repeat(stars) + '☆'.repeat(Math.max(0, 3 - stars));
+
+export function StageSelect({ progress, selectedIndex, onSelect }: Props) {
+  const selected = campaignStages.find((s) => s.index === selectedIndex) ?? campaignStages[0];
+  return (
+    <div className="stage-select">
+      <div className="stage-grid">
+        {campaignStages.map((stage) => {
+          const locked = stage.index > progress.unlockedStage;
+          return (
+            <button
+              key={stage.id}
+              type="button"
+              className={`stage-tile${stage.index === selected.index ? ' selected' : ''}`}
+              disabled={locked}
+              onClick={() => onSelect(stage.index)}
+            >
+              <span className="stage-number">{locked ? '🔒' : stage.index}</span>
+              <span className="stage-stars">{starsLabel(progress.starsByStage[stage.id] ?? 0)}</span>
+            </button>
+          );
+        })}
+      </div>
+      <h3>{selected.name}</h3>
+      <p>{selected.description}</p>
+      <p className="stage-objective">
+        {describeObjective(selected.objective)}
+        {selected.setup.timeLimitSeconds !== undefined && ` within ${selected.setup.timeLimitSeconds}s`}
+      </p>
+    </div>
+  );
+}
@@ -73,6 +73,20 @@ export class SfxEngine {
         this.rise(160, 420, 0.16, 'sawtooth');
         this.chirp(120, 0.14, 0.06, 'square');
       }
+      if (event.type === 'combo' && event.bonus > 0) this.rise(520 + event.multiplier * 120, 900 + event.multiplier * 160, 0.1);
+      if (event.type === 'power-up') this.rise(640, 1040, 0.12, 'triangle');
+      if (event.type === 'power-up-expired' && event.reason === 'used') this.fall(520, 260, 0.12);
+      if (event.type === 'player-stunned') this.fall(event.cause === 'net' ? 320 : 760, event.cause === 'net' ? 180 : 420, 0.1);
+      if (event.type === 'mine-exploded') {
+        this.noiseHit();
+        this.fall(140, 50, 0.3);
+      }
+      if (event.type === 'net-torn') this.rise(220, 480, 0.1, 'square');
+      if (event.type === 'boss-spawned') this.fall(180, 60, 0.6);
+      if (event.type === 'boss-telegraph') this.chirp(event.attack === 'summon' ? 240 : 150, 0.18, 0.05, 'sawtooth');
+      if (event.type === 'boss-tail-sweep') this.noiseHit();
+      if (event.type === 'boss-phase' || event.type === 'boss-enraged') this.fall(260, 110, 0.3);
+      if (event.type === 'boss-defeated') this.rise(120, 640, 0.5, 'sawtooth');
       if (event.type === 'game-over') this.fall(280, 90, 0.25);
     }
   }
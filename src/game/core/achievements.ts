@@ -0,0 +1,155 @@
+import type { AchievementDefinition, AchievementTally, DifficultyKey, GameEvent, RecordedEventBatch, Stats } from './types';
+
+export const emptyAchievementTally = (difficulty: DifficultyKey, sizeTier = 1): AchievementTally => ({
+  difficulty,
+  timeSeconds: 0,
+  score: 0,
+  eaten: 0,
+  hitsTaken: 0,
+  apexHits: 0,
+  apexKills: 0,
+  bossesDefeated: 0,
+  bestCombo: 0,
+  netsTorn: 0,
+  sizeTier,
+  tierReachedAt: { [sizeTier]: 0 },
+  cleared: false,
+});
+
+/** Folds one frame's events, raised at run time `timeSeconds`, into a copy of the tally. */
+export const tallyAchievementEvents = (tally: AchievementTally, events: GameEvent[], timeSeconds: number): AchievementTally => {
+  const next: AchievementTally = { ...tally, tierReachedAt: { ...tally.tierReachedAt }, timeSeconds };
+  for (const e of events) {
+    if (e.type === 'score') next.score += e.amount;
+    if (e.type === 'eat' && (e.kind === 'prey' || e.kind === 'predator')) next.eaten += 1;
+    if (e.type === 'player-hit') next.hitsTaken += 1;
+    if (e.type === 'apex-hit') next.apexHits += 1;
+    if (e.type === 'apex-killed') next.apexKills += 1;
+    if (e.type === 'boss-defeated') next.bossesDefeated += 1;
+    if (e.type === 'combo') next.bestCombo = Math.max(next.bestCombo, e.count);
+    if (e.type === 'net-torn') next.netsTorn += 1;
+    if (e.type === 'stage-complete' || e.type === 'challenge-complete') next.cleared = true;
+    if (e.type === 'growth') {
+      next.sizeTier = Math.max(next.sizeTier, e.sizeTier);
+      next.tierReachedAt[e.sizeTier] ??= timeSeconds;
+    }
+  }
+  return next;
+};
+
+const lifetime = (target: number, read: (tally: AchievementTally, stats: Stats) => number): Pick<AchievementDefinition, 'unlocked' | 'progress'> => ({
+  unlocked: (tally, stats) => read(tally, stats) >= target,
+  progress: (tally, stats) => ({ current: Math.floor(read(tally, stats)), target }),
+});
+
+export const achievementCatalogue: AchievementDefinition[] = [
+  {
+    id: 'first-bite',
+    name: 'First Bite',
+    description: 'Eat your first fish.',
+    unlocked: (tally) => tally.eaten >= 1,
+  },
+  {
+    id: 'first-apex',
+    name: 'Giant Slayer',
+    description: 'Kill an apex predator.',
+    unlocked: (tally) => tally.apexKills >= 1,
+  },
+  {
+    id: 'size-5-sprint',
+    name: 'Growth Spurt',
+    description: 'Reach size 5 in under 60 seconds.',
+    unlocked: (tally) => (tally.tierReachedAt[5] ?? Infinity) < 60,
+  },
+  {
+    id: 'combo-10',
+    name: 'Feeding Frenzy',
+    description: 'Chain 10 eats in a single combo.',
+    unlocked: (tally) => tally.bestCombo >= 10,
+  },
+  {
+    id: 'score-50k',
+    name: 'Reef Royalty',
+    description: 'Score 50,000 points in one run.',
+    unlocked: (tally) => tally.score >= 50000,
+  },
+  {
+    id: 'survive-300',
+    name: 'Old Timer',
+    description: 'Stay alive for 5 minutes in one run.',
+    unlocked: (tally) => tally.timeSeconds >= 300,
+  },
+  {
+    id: 'net-breaker',
+    name: 'Net Breaker',
+    description: 'Tear through a fishing net.',
+    unlocked: (tally) => tally.netsTorn >= 1,
+  },
+  {
+    id: 'boss-slayer',
+    name: 'Leviathan Hunter',
+    description: 'Defeat a boss.',
+    unlocked: (tally) => tally.bossesDefeated >= 1,
+  },
+  {
+    id: 'hard-flawless',
+    name: 'Flawless',
+    description: 'Clear a stage or challenge on Hard without losing a life.',
+    unlocked: (tally) => tally.cleared && tally.difficulty === 'hard' && tally.hitsTaken === 0,
+  },
+  {
+    id: 'apex-hits-100',
+    name: 'Tail Biter',
+    description: 'Land 100 apex tail strikes across all runs.',
+    ...lifetime(100, (tally, stats) => stats.totalApexHits + tally.apexHits),
+  },
+  {
+    id: 'apex-kills-25',
+    name: 'Apex of Apexes',
+    description: 'Kill 25 apex predators across all runs.',
+    ...lifetime(25, (tally, stats) => stats.totalApexKills + tally.apexKills),
+  },
+  {
+    id: 'eaten-1000',
+    name: 'Bottomless',
+    description: 'Eat 1,000 fish across all runs.',
+    ...lifetime(1000, (tally, stats) => stats.totalPreyEaten + tally.eaten),
+  },
+  {
+    id: 'runs-100',
+    name: 'Regular',
+    description: 'Start 100 runs.',
+    ...lifetime(100, (_, stats) => stats.runsStarted),
+  },
+];
+
+export const achievementById = (id: string) => achievementCatalogue.find((a) => a.id === id) ?? null;
+
+/** Achievements the tally earns that are not in `unlockedIds` yet, in catalogue order. */
+export const newlyUnlockedAchievements = (unlockedIds: Iterable<string>, tally: AchievementTally, stats: Stats) => {
+  const unlocked = new Set(unlockedIds);
+  return achievementCatalogue.filter((a) => !unlocked.has(a.id) && a.unlocked(tally, stats));
+};
+
+/**
+ * Replays a recorded event list through the same tally and checks the UI uses, so unlock rules can be
+ * exercised headlessly against a captured run or a hand-written fixture.
+ */
+export const achievementsForRecording = (
+  difficulty: DifficultyKey,
+  batches: RecordedEventBatch[],
+  stats: Stats,
+  unlockedIds: Iterable<string> = [],
+) => {
+  const unlocked = new Set(unlockedIds);
+  const earned: AchievementDefinition[] = [];
+  let tally = emptyAchievementTally(difficulty);
+  for (const batch of batches) {
+    tally = tallyAchievementEvents(tally, batch.events, batch.timeSeconds);
+    for (const achievement of newlyUnlockedAchievements(unlocked, tally, stats)) {
+      unlocked.add(achievement.id);
+      earned.push(achievement);
+    }
+  }
+  return { tally, earned };
+};
@@ -0,0 +1,105 @@
+import type { KeyAction, KeyBindingPreset, KeyBindings } from './types';
+
+/** Keys each action can hold: a primary and an alternate. */
+export const KEYS_PER_ACTION = 2;
+
+export const keyActions: { action: KeyAction; label: string }[] = [
+  { action: 'up', label: 'Up' },
+  { action: 'down', label: 'Down' },
+  { action: 'left', label: 'Left' },
+  { action: 'right', label: 'Right' },
+  { action: 'pause', label: 'Pause' },
+  { action: 'start', label: 'Start / Retry' },
+];
+
+// Keys are stored as lowercased `KeyboardEvent.key` values, so they follow the active keyboard layout.
+export const keyBindingPresets: Record<KeyBindingPreset, { label: string; bindings: KeyBindings }> = {
+  qwerty: {
+    label: 'WASD + Arrows',
+    bindings: {
+      up: ['arrowup', 'w'],
+      down: ['arrowdown', 's'],
+      left: ['arrowleft', 'a'],
+      right: ['arrowright', 'd'],
+      pause: ['p', 'escape'],
+      start: ['enter', ' '],
+    },
+  },
+  azerty: {
+    label: 'ZQSD + Arrows (AZERTY)',
+    bindings: {
+      up: ['arrowup', 'z'],
+      down: ['arrowdown', 's'],
+      left: ['arrowleft', 'q'],
+      right: ['arrowright', 'd'],
+      pause: ['p', 'escape'],
+      start: ['enter', ' '],
+    },
+  },
+  leftHanded: {
+    label: 'IJKL + Numpad (left-handed)',
+    bindings: {
+      up: ['i', '8'],
+      down: ['k', '5'],
+      left: ['j', '4'],
+      right: ['l', '6'],
+      pause: ['p', 'escape'],
+      start: ['enter', '0'],
+    },
+  },
+};
+
+export const defaultKeyBindings = keyBindingPresets.qwerty.bindings;
+
+/** Keys bound to more than one action, with the actions sharing each. */
+export const findBindingConflicts = (bindings: KeyBindings): { key: string; actions: KeyAction[] }[] => {
+  const byKey = new Map<string, KeyAction[]>();
+  for (const { action } of keyActions) {
+    for (const key of bindings[action]) byKey.set(key, [...(byKey.get(key) ?? []), action]);
+  }
+  return [...byKey].filter(([, actions]) => actions.length > 1).map(([key, actions]) => ({ key, actions }));
+};
+
+/**
+ * Puts `key` in `slot` of `action`. A key can only do one thing, so it is taken off whatever action
+ * held it before; that action is returned as `displaced` so the caller can say so.
+ */
+export const assignKey = (bindings: KeyBindings, action: KeyAction, slot: number, key: string) => {
+  const displaced = keyActions.find((a) => a.action !== action && bindings[a.action].includes(key))?.action ?? null;
+  const next = { ...bindings };
+  if (displaced) next[displaced] = bindings[displaced].filter((k) => k !== key);
+  const keys = [...bindings[action]];
+  const index = Math.min(slot, keys.length);
+  keys[index] = key;
+  next[action] = keys.filter((k, i) => k !== key || i === index).slice(0, KEYS_PER_ACTION);
+  return { bindings: next, displaced };
+};
+
+export const clearKey = (bindings: KeyBindings, action: KeyAction, slot: number): KeyBindings => ({
+  ...bindings,
+  [action]: bindings[action].filter((_, i) => i !== slot),
+});
+
+/** Which preset the bindings match exactly, or null once customised. */
+export const matchingPreset = (bindings: KeyBindings) => (
+  (Object.keys(keyBindingPresets) as KeyBindingPreset[]).find((preset) => keyActions.every(({ action }) => (
+    keyBindingPresets[preset].bindings[action].join('|') === bindings[action].join('|')
+  ))) ?? null
+);
+
+const keyNames: Record<string, string> = {
+  ' ': 'Space',
+  arrowup: '↑',
+  arrowdown: '↓',
+  arrowleft: '←',
+  arrowright: '→',
+  escape: 'Esc',
+  enter: 'Enter',
+  backspace: 'Backspace',
+  tab: 'Tab',
+  shift: 'Shift',
+  control: 'Ctrl',
+  alt: 'Alt',
+};
+
+export const keyLabel = (key: string) => keyNames[key] ?? (key.length === 1 ? key.toUpperCase() : key[0].toUpperCase() + key.slice(1));
@@ -0,0 +1,133 @@
+import type { GameState, StageDefinition, StageObjective } from './types';
+
+export const campaignStages: StageDefinition[] = [
+  {
+    id: 'shallows',
+    index: 1,
+    name: 'The Shallows',
+    description: 'Calm water and plenty of small fry. Grow to size 3.',
+    objective: { type: 'reach-size', sizeTier: 3 },
+    stars: { metric: 'timeSeconds', thresholds: [30, 18] },
+    setup: {
+      difficultyOverrides: { preySpawnPerSecond: 3, maxPrey: 16, maxPredators: 1, currentStrength: 0 },
+      unlockAtSeconds: { prey: 0, predator: 15 },
+    },
+  },
+  {
+    id: 'kelp-run',
+    index: 2,
+    name: 'Kelp Run',
+    description: 'Predators patrol the kelp. Stay alive for 60 seconds.',
+    objective: { type: 'survive', seconds: 60 },
+    stars: { metric: 'score', thresholds: [6000, 10000] },
+    setup: {
+      difficultyOverrides: { predatorSpawnPerSecond: 0.9, maxPredators: 4 },
+      unlockAtSeconds: { prey: 0, predator: 0 },
+    },
+  },
+  {
+    id: 'growth-spurt',
+    index: 3,
+    name: 'Growth Spurt',
+    description: 'Reach full size before the tide turns.',
+    objective: { type: 'reach-size', sizeTier: 5 },
+    stars: { metric: 'timeSeconds', thresholds: [70, 40] },
+    setup: {
+      unlockAtSeconds: { prey: 0, predator: 4, hazard: 40 },
+      timeLimitSeconds: 150,
+    },
+  },
+  {
+    id: 'first-blood',
+    index: 4,
+    name: 'First Blood',
+    description: 'An apex hunts these waters. Strike its tail until it goes down.',
+    objective: { type: 'kill-apex', count: 1 },
+    stars: { metric: 'livesRemaining', thresholds: [3, 5] },
+    setup: {
+      startingSizeTier: 4,
+      difficultyOverrides: { apexSpawnPerSecond: 0.1, maxApex: 1 },
+      unlockAtSeconds: { prey: 0, predator: 6, apex: 0 },
+      initialSpawns: { apex: 1 },
+    },
+  },
+  {
+    id: 'predator-alley',
+    index: 5,
+    name: 'Predator Alley',
+    description: 'Start tiny in a crowded channel. Survive 90 seconds.',
+    objective: { type: 'survive', seconds: 90 },
+    stars: { metric: 'score', thresholds: [9000, 15000] },
+    setup: {
+      startingSizeTier: 1,
+      difficultyOverrides: { predatorSpawnPerSecond: 1.1, maxPredators: 5, hazardSpawnPerSecond: 0.06, maxHazards: 2 },
+      unlockAtSeconds: { prey: 0, predator: 0, apex: 45, hazard: 20, pickup: 15 },
+      playerStart: { x: 0.5, y: 0.5 },
+    },
+  },
+  {
+    id: 'apex-gauntlet',
+    index: 6,
+    name: 'Apex Gauntlet',
+    description: 'Two apex predators, one clock. Take them both down.',
+    objective: { type: 'kill-apex', count: 2 },
+    stars: { metric: 'timeSeconds', thresholds: [120, 80] },
+    setup: {
+      startingSizeTier: 4,
+      difficultyOverrides: { apexSpawnPerSecond: 0.08, maxApex: 2 },
+      unlockAtSeconds: { prey: 0, predator: 0, apex: 10, hazard: 30, pickup: 20 },
+      timeLimitSeconds: 180,
+    },
+  },
+  {
+    id: 'leviathan',
+    index: 7,
+    name: 'Leviathan',
+    description: 'The reef\'s oldest hunter wakes. Read its tells and bite its tail.',
+    objective: { type: 'kill-apex', count: 1 },
+    stars: { metric: 'livesRemaining', thresholds: [3, 5] },
+    setup: {
+      startingSizeTier: 5,
+      difficultyOverrides: { apexSpawnPerSecond: 0 },
+      unlockAtSeconds: { prey: 0, predator: 4, pickup: 10 },
+      bossAtSeconds: 4,
+    },
+  },
+];
+
+export const stageById = (id: string | undefined) => campaignStages.find((s) => s.id === id) ?? null;
+
+export const stageByIndex = (index: number) => campaignStages.find((s) => s.index === index) ?? null;
+
+export const describeObjective = (objective: StageObjective) => {
+  switch (objective.type) {
+    case 'reach-size': return `Reach size ${objective.sizeTier}`;
+    case 'survive': return `Survive ${objective.seconds}s`;
+    case 'kill-apex': return objective.count === 1 ? 'Kill an apex' : `Kill ${objective.count} apex`;
+  }
+};
+
+/** Current value and target of the objective, for HUD progress. */
+export const objectiveProgress = (state: GameState, objective: StageObjective) => {
+  switch (objective.type) {
+    case 'reach-size': return { current: state.player.sizeTier, target: objective.sizeTier };
+    case 'survive': return { current: Math.floor(state.run.timeSeconds), target: objective.seconds };
+    case 'kill-apex': return { current: state.run.apexKills, target: objective.count };
+  }
+};
+
+export const isObjectiveMet = (state: GameState, objective: StageObjective) => {
+  const { current, target } = objectiveProgress(state, objective);
+  return current >= target;
+};
+
+export const starsForStage = (state: GameState, definition: StageDefinition) => {
+  const { metric, thresholds } = definition.stars;
+  const value = metric === 'score'
+    ? state.run.score
+    : metric === 'livesRemaining'
+      ? state.player.lives
+      : state.run.timeSeconds;
+  const meets = (threshold: number) => (metric === 'timeSeconds' ? value <= threshold : value >= threshold);
+  return 1 + thresholds.filter(meets).length;
+};
@@ -0,0 +1,105 @@
+import type { ChallengeDefinition, ChallengeTally } from './types';
+
+export const emptyChallengeTally = (): ChallengeTally => ({
+  eaten: 0,
+  growths: 0,
+  hitsTaken: 0,
+  apexHits: 0,
+  apexKills: 0,
+});
+
+export const challengeCatalogue: ChallengeDefinition[] = [
+  {
+    id: 'lean-feast',
+    name: 'Lean Feast',
+    description: 'Eat 30 fish without growing. You stay small the whole time.',
+    setup: {
+      growthLocked: true,
+      unlockAtSeconds: { prey: 0, predator: 4, apex: 40 },
+    },
+    succeeded: (tally) => tally.eaten >= 30,
+    progress: (tally) => ({ current: tally.eaten, target: 30 }),
+    metric: { label: 'Time', unit: 's', higherIsBetter: false, value: (_, state) => state.run.timeSeconds },
+  },
+  {
+    id: 'hard-double-apex',
+    name: 'Double Trouble',
+    description: 'Kill two apex predators on Hard.',
+    difficulty: 'hard',
+    setup: {
+      startingSizeTier: 4,
+      unlockAtSeconds: { prey: 0, predator: 6, apex: 5 },
+      timeLimitSeconds: 240,
+    },
+    succeeded: (tally) => tally.apexKills >= 2,
+    progress: (tally) => ({ current: tally.apexKills, target: 2 }),
+    metric: { label: 'Time', unit: 's', higherIsBetter: false, value: (_, state) => state.run.timeSeconds },
+  },
+  {
+    id: 'one-life-90',
+    name: 'Glass Fin',
+    description: 'Survive 90 seconds with a single life.',
+    setup: {
+      difficultyOverrides: { startingLives: 1 },
+      extraLives: false,
+    },
+    succeeded: (_, state) => state.run.timeSeconds >= 90,
+    progress: (_, state) => ({ current: Math.floor(state.run.timeSeconds), target: 90 }),
+    metric: { label: 'Score', unit: 'pts', higherIsBetter: true, value: (_, state) => state.run.score },
+  },
+  {
+    id: 'growth-sprint',
+    name: 'Growth Sprint',
+    description: 'Reach size 5 within 60 seconds.',
+    setup: {
+      unlockAtSeconds: { prey: 0, predator: 2, apex: 30 },
+      timeLimitSeconds: 60,
+    },
+    succeeded: (_, state) => state.player.sizeTier >= 5,
+    progress: (_, state) => ({ current: state.player.sizeTier, target: 5 }),
+    metric: { label: 'Time', unit: 's', higherIsBetter: false, value: (_, state) => state.run.timeSeconds },
+  },
+  {
+    id: 'pacifist',
+    name: 'Pacifist',
+    description: 'Survive 45 seconds without eating a single fish.',
+    setup: {
+      unlockAtSeconds: { prey: 0, predator: 0, hazard: 20 },
+      difficultyOverrides: { hazardSpawnPerSecond: 0.08, maxHazards: 2 },
+    },
+    succeeded: (_, state) => state.run.timeSeconds >= 45,
+    failed: (tally) => tally.eaten > 0,
+    progress: (_, state) => ({ current: Math.floor(state.run.timeSeconds), target: 45 }),
+    metric: { label: 'Lives left', unit: '', higherIsBetter: true, value: (_, state) => state.player.lives },
+  },
+  {
+    id: 'untouchable',
+    name: 'Untouchable',
+    description: 'Land 5 apex tail strikes without taking a hit.',
+    setup: {
+      startingSizeTier: 5,
+      difficultyOverrides: { apexMaxHealth: 99, maxApex: 1 },
+      unlockAtSeconds: { prey: 0, apex: 3 },
+      initialSpawns: { apex: 1 },
+    },
+    succeeded: (tally) => tally.apexHits >= 5,
+    failed: (tally) => tally.hitsTaken > 0,
+    progress: (tally) => ({ current: tally.apexHits, target: 5 }),
+    metric: { label: 'Time', unit: 's', higherIsBetter: false, value: (_, state) => state.run.timeSeconds },
+  },
+];
+
+export const challengeById = (id: string | undefined) => challengeCatalogue.find((c) => c.id === id) ?? null;
+
+export const formatChallengeResult = (definition: ChallengeDefinition, value: number) => {
+  const { unit } = definition.metric;
+  if (unit === 's') return `${value.toFixed(1)}s`;
+  if (unit === 'pts') return `${Math.round(value)} pts`;
+  return `${Math.round(value)}`;
+};
+
+/** True when `candidate` beats `previous` under the challenge's metric direction. */
+export const isBetterChallengeResult = (definition: ChallengeDefinition, candidate: number, previous: number | undefined) => {
+  if (previous === undefined) return true;
+  return definition.metric.higherIsBetter ? candidate > previous : candidate < previous;
+};
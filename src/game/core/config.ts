@@ -1,3 +1,4 @@
+import { defaultKeyBindings } from './bindings';
 import type { DifficultySet, GameSettings, SaveData } from './types';
 
 const base = {
@@ -20,14 +21,20 @@ export const difficulties: DifficultySet = {
     predatorSpawnPerSecond: 0.35,
     apexSpawnPerSecond: 0.05,
     hazardSpawnPerSecond: 0.03,
+    pickupSpawnPerSecond: 0.07,
     maxPrey: 14,
     maxPredators: 2,
     maxApex: 1,
     maxHazards: 1,
+    maxPickups: 2,
+    pickupLifetimeSeconds: 12,
+    powerUpWeights: { speed: 3, shield: 3, magnet: 3, frenzy: 1 },
+    powerUpSeconds: { speed: 7, shield: 15, magnet: 8, frenzy: 6 },
     predatorAggression: 0.3,
     apexAggression: 0.5,
     apexMaxHealth: 2,
     apexTailHitLeniency: 1.18,
+    currentStrength: 0.8,
     ...base,
   },
   normal: {
@@ -42,14 +49,20 @@ export const difficulties: DifficultySet = {
     predatorSpawnPerSecond: 0.55,
     apexSpawnPerSecond: 0.08,
     hazardSpawnPerSecond: 0.05,
+    pickupSpawnPerSecond: 0.05,
     maxPrey: 13,
     maxPredators: 3,
     maxApex: 1,
     maxHazards: 1,
+    maxPickups: 1,
+    pickupLifetimeSeconds: 10,
+    powerUpWeights: { speed: 3, shield: 2, magnet: 3, frenzy: 2 },
+    powerUpSeconds: { speed: 6, shield: 12, magnet: 7, frenzy: 5 },
     predatorAggression: 0.45,
     apexAggression: 0.65,
     apexMaxHealth: 3,
     apexTailHitLeniency: 1.05,
+    currentStrength: 1,
     ...base,
   },
   hard: {
@@ -64,14 +77,20 @@ export const difficulties: DifficultySet = {
     predatorSpawnPerSecond: 0.8,
     apexSpawnPerSecond: 0.12,
     hazardSpawnPerSecond: 0.08,
+    pickupSpawnPerSecond: 0.035,
     maxPrey: 12,
     maxPredators: 4,
     maxApex: 2,
     maxHazards: 1,
+    maxPickups: 1,
+    pickupLifetimeSeconds: 8,
+    powerUpWeights: { speed: 3, shield: 1, magnet: 2, frenzy: 2 },
+    powerUpSeconds: { speed: 5, shield: 10, magnet: 6, frenzy: 4 },
     predatorAggression: 0.62,
     apexAggression: 0.82,
     apexMaxHealth: 4,
     apexTailHitLeniency: 0.92,
+    currentStrength: 1.2,
     ...base,
   },
 };
@@ -82,20 +101,28 @@ export const defaultSettings: GameSettings = {
   hapticsEnabled: true,
   reducedMotion: false,
   controlMode: 'joystick',
+  keyBindings: defaultKeyBindings,
+  gamepadDeadzone: 0.2,
+  gamepadResponseCurve: 1.5,
+  telemetryEnabled: true,
 };
 
 export const defaultSaveData: SaveData = {
-  version: 1,
+  version: 3,
   selectedMode: 'arcade',
   selectedDifficulty: 'normal',
   settings: defaultSettings,
   highScores: { easy: 0, normal: 0, hard: 0 },
+  highScoreReplays: {},
   stats: {
     runsStarted: 0,
     totalDeaths: 0,
     totalPlaySeconds: 0,
     totalPreyEaten: 0,
     bestSizeTier: 1,
+    totalApexHits: 0,
+    totalApexKills: 0,
+    bossesDefeated: 0,
   },
   meta: {
     highestMilestone: 0,
@@ -110,5 +137,12 @@ export const defaultSaveData: SaveData = {
     completedIds: [],
     bestById: {},
     dailyStreak: 0,
+    dailyLastDate: null,
+    dailyLastScore: 0,
+    dailyBestScore: 0,
   },
+  achievements: {
+    unlockedAt: {},
+  },
+  leaderboard: [],
 };
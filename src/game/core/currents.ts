@@ -0,0 +1,61 @@
+import { seedRng, rnd } from './math';
+import type { CurrentZone, Vec2 } from './types';
+
+// Currents draw from their own stream so the layout never shifts the spawn sequence.
+const CURRENT_SEED_SALT = 0x5bd1e995;
+/** One vortex is placed per this much arena width. */
+const VORTEX_SEGMENT_WIDTH = 960;
+
+/** Lays out two arena-wide bands plus a vortex per screen width; `strengthScale` 0 turns currents off. */
+export const generateCurrents = (seed: number, arena: { width: number; height: number }, strengthScale: number): CurrentZone[] => {
+  if (strengthScale <= 0) return [];
+  const rng = { rngState: seedRng(seed ^ CURRENT_SEED_SALT) };
+  const band = (minY: number, maxY: number): CurrentZone => ({
+    kind: 'band',
+    y: rnd(rng, arena.height * minY, arena.height * maxY),
+    halfHeight: rnd(rng, 38, 58),
+    direction: rnd(rng, 0, 1) < 0.5 ? -1 : 1,
+    strength: rnd(rng, 55, 80) * strengthScale,
+    periodSeconds: rnd(rng, 12, 20),
+    phase: rnd(rng, 0, Math.PI * 2),
+  });
+  const zones = [band(0.16, 0.32), band(0.68, 0.84)];
+  for (let left = 0; left + VORTEX_SEGMENT_WIDTH <= arena.width; left += VORTEX_SEGMENT_WIDTH) {
+    zones.push({
+      kind: 'vortex',
+      center: { x: left + rnd(rng, 0.38, 0.72) * VORTEX_SEGMENT_WIDTH, y: rnd(rng, arena.height * 0.35, arena.height * 0.65) },
+      radius: rnd(rng, 110, 150),
+      spin: rnd(rng, 0, 1) < 0.5 ? -1 : 1,
+      strength: rnd(rng, 60, 85) * strengthScale,
+      periodSeconds: rnd(rng, 14, 22),
+      phase: rnd(rng, 0, Math.PI * 2),
+    });
+  }
+  return zones;
+};
+
+/** Fraction of peak strength at run time `t`; swings between 0.2 and 1 so a current can nearly die down. */
+export const currentPulse = (zone: CurrentZone, t: number) => 0.6 + 0.4 * Math.sin((t * Math.PI * 2) / zone.periodSeconds + zone.phase);
+
+/** Summed flow velocity in px/s at `pos`. Bands fade out towards their edges, vortices peak halfway out. */
+export const sampleCurrent = (zones: CurrentZone[], pos: Vec2, t: number): Vec2 => {
+  let x = 0;
+  let y = 0;
+  for (const zone of zones) {
+    if (zone.kind === 'band') {
+      const d = Math.abs(pos.y - zone.y);
+      if (d >= zone.halfHeight) continue;
+      const falloff = 0.5 + 0.5 * Math.cos((Math.PI * d) / zone.halfHeight);
+      x += zone.direction * zone.strength * currentPulse(zone, t) * falloff;
+    } else {
+      const ox = pos.x - zone.center.x;
+      const oy = pos.y - zone.center.y;
+      const d = Math.hypot(ox, oy);
+      if (d >= zone.radius || d < 1) continue;
+      const speed = zone.strength * currentPulse(zone, t) * Math.sin((Math.PI * d) / zone.radius);
+      x += (-oy / d) * zone.spin * speed;
+      y += (ox / d) * zone.spin * speed;
+    }
+  }
+  return { x, y };
+};
@@ -0,0 +1,88 @@
+import { hashString, nextRandom, seedRng } from './math';
+import type { ChallengeProgress, DailyDefinition, DailyModifier, ScenarioSetup } from './types';
+
+const DAILY_MODIFIER_COUNT = 2;
+// Modifier picks draw from their own stream, salted apart from the run, terrain and currents streams.
+const MODIFIER_SEED_SALT = 0x165667b1;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Unlock table every daily starts from; modifiers only adjust individual entries. */
+const baseDailySetup: ScenarioSetup = {
+  unlockAtSeconds: { prey: 0, predator: 2, apex: 20, hazard: 30, pickup: 8 },
+};
+
+export const dailyModifiers: DailyModifier[] = [
+  { id: 'feeding-frenzy', label: 'Feeding Frenzy', setup: { difficultyOverrides: { preySpawnPerSecond: 3.4, maxPrey: 18 } } },
+  { id: 'crowded-reef', label: 'Crowded Reef', setup: { difficultyOverrides: { predatorSpawnPerSecond: 0.9, maxPredators: 5 } } },
+  {
+    id: 'apex-season',
+    label: 'Apex Season',
+    setup: { difficultyOverrides: { apexSpawnPerSecond: 0.14, maxApex: 2 }, unlockAtSeconds: { apex: 10 } },
+  },
+  {
+    id: 'minefield',
+    label: 'Minefield',
+    setup: { difficultyOverrides: { hazardSpawnPerSecond: 0.08, maxHazards: 2 }, unlockAtSeconds: { hazard: 12 } },
+  },
+  { id: 'fragile', label: 'Fragile', group: 'lives', setup: { difficultyOverrides: { startingLives: 3 } } },
+  { id: 'hardy', label: 'Hardy', group: 'lives', setup: { difficultyOverrides: { startingLives: 7 } } },
+  { id: 'late-bloomer', label: 'Late Bloomer', group: 'size', setup: { startingSizeTier: 1 } },
+  { id: 'head-start', label: 'Head Start', group: 'size', setup: { startingSizeTier: 3 } },
+  { id: 'swift-fins', label: 'Swift Fins', setup: { difficultyOverrides: { playerSpeed: 255 } } },
+];
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/** Local calendar date, so the daily rolls over at the player's own midnight and needs no server. */
+export const dailyDateKey = (date = new Date()) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+const dayNumber = (dateKey: string) => {
+  const [y, m, d] = dateKey.split('-').map(Number);
+  return Math.round(Date.UTC(y, m - 1, d) / DAY_MS);
+};
+
+/** Hash of the date key, so every device plays the same daily. */
+export const seedForDate = (dateKey: string) => hashString(`reef-daily:${dateKey}`);
+
+const mergeSetup = (a: ScenarioSetup, b: ScenarioSetup): ScenarioSetup => ({
+  ...a,
+  ...b,
+  difficultyOverrides: { ...a.difficultyOverrides, ...b.difficultyOverrides },
+  unlockAtSeconds: { ...a.unlockAtSeconds, ...b.unlockAtSeconds },
+});
+
+export const dailyChallengeFor = (dateKey: string): DailyDefinition => {
+  const seed = seedForDate(dateKey);
+  const rng = { rngState: seedRng(seed ^ MODIFIER_SEED_SALT) };
+  const pool = [...dailyModifiers];
+  const modifiers: DailyModifier[] = [];
+  while (modifiers.length < DAILY_MODIFIER_COUNT && pool.length > 0) {
+    const [pick] = pool.splice(Math.floor(nextRandom(rng) * pool.length), 1);
+    if (pick.group && modifiers.some((m) => m.group === pick.group)) continue;
+    modifiers.push(pick);
+  }
+  return {
+    dateKey,
+    seed,
+    difficulty: 'normal',
+    modifiers,
+    setup: modifiers.reduce((setup, m) => mergeSetup(setup, m.setup), baseDailySetup),
+  };
+};
+
+export const hasScoredDaily = (progress: ChallengeProgress, dateKey: string) => progress.dailyLastDate === dateKey;
+
+/** Streak as it stands today: a gap of more than one day since the last attempt means it has lapsed. */
+export const currentDailyStreak = (progress: ChallengeProgress, dateKey: string) => {
+  if (!progress.dailyLastDate) return 0;
+  const gap = dayNumber(dateKey) - dayNumber(progress.dailyLastDate);
+  return gap <= 1 ? progress.dailyStreak : 0;
+};
+
+/** Streak after making today's scored attempt: consecutive days extend it, a missed day restarts at 1. */
+export const nextDailyStreak = (progress: ChallengeProgress, dateKey: string) => {
+  if (!progress.dailyLastDate) return 1;
+  const gap = dayNumber(dateKey) - dayNumber(progress.dailyLastDate);
+  if (gap === 0) return progress.dailyStreak;
+  return gap === 1 ? progress.dailyStreak + 1 : 1;
+};
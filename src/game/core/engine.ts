@@ -1,13 +1,97 @@
+import { isObjectiveMet, starsForStage } from './campaign';
+import { emptyChallengeTally } from './challenges';
 import { difficulties } from './config';
-import { add, clamp, dist, lerp, normalize, rnd, scale, sub } from './math';
-import type { DifficultyKey, Entity, EntityKind, FishSizeClass, GameEvent, GameState, InputState } from './types';
+import { generateCurrents, sampleCurrent } from './currents';
+import { add, clamp, clampLength, dist, lerp, nextRandom, normalize, randomSeed, rnd, scale, seedRng, sub, type RngHolder } from './math';
+import { buildSpatialIndex, createSpatialIndex, insertEntity, nearestEntity, queryRadius, removeEntity } from './spatial';
+import { collideWithTerrain, generateTerrain, nearestShelter, terrainAvoidance, terrainBlocksLine } from './terrain';
+import type { BossAttackKind, BossPhase, ChallengeTally, DifficultyKey, Entity, EntityKind, FishSizeClass, GameEvent, GameState, HazardType, InputState, PowerUpKind, RunFailReason, RunScenario, ScenarioSetup, Vec2, ViewRect } from './types';
 
-const ARENA = { width: 960, height: 540 };
+/** The whole playfield: three screens wide and two tall. */
+const ARENA = { width: 2880, height: 1080 };
+/** One screen's worth of the arena; `GameState.view` is this window following the player. */
+const VIEW = { width: 960, height: 540 };
+/** Per-second catch-up rate of the view towards the player. */
+const CAMERA_FOLLOW_RATE = 5;
+/** NPCs further than this outside the view skip their AI and just coast. */
+const SIM_MARGIN = 260;
+/** Anything further than this outside the view is dropped, freeing spawn caps near the player. */
+const CULL_MARGIN = 480;
 const BASE_PLAYER_RADIUS = 14;
 const SIZE_STEP = 4;
 const MAX_SIZE_TIER = 5;
 const APEX_HIT_COOLDOWN_SECONDS = 0.45;
 const NPC_SIZE_CLASSES: FishSizeClass[] = [1, 2, 3, 4];
+const NPC_HUNT_RADIUS = 170;
+const APEX_FEED_RADIUS = 140;
+const NPC_DIGEST_SECONDS = 3.5;
+/** Fraction of the summed radii at which a hunter's mouth reaches its target. */
+const NPC_BITE_REACH = 0.75;
+const SCHOOLING_MAX_SIZE = 2;
+const SCHOOL_RADIUS = 110;
+const SCHOOL_WEIGHTS = { cohesion: 0.9, alignment: 1.1, separation: 1.6 };
+const SPEED_BOOST_MULTIPLIER = 1.35;
+const MAGNET_RADIUS = 190;
+const MAGNET_PULL = 120;
+/** Brief grace after a shield absorbs a hit, so one overlap does not also cost a life next tick. */
+const SHIELD_BREAK_GRACE_SECONDS = 0.8;
+/** Anything this close to a respawned player is cleared away. */
+const RESPAWN_CLEAR_RADIUS = 120;
+const POWER_UP_KINDS: PowerUpKind[] = ['speed', 'shield', 'magnet', 'frenzy'];
+const COMBO_WINDOW_SECONDS = 2;
+const HAZARD_TYPES: HazardType[] = ['jellyfish', 'urchin', 'mine', 'net'];
+const HAZARD_WEIGHTS: Record<HazardType, number> = { jellyfish: 4, urchin: 3, mine: 2, net: 2 };
+const JELLYFISH_STUN_SECONDS = 0.6;
+const JELLYFISH_SLOW_SECONDS = 2.5;
+const SLOWED_SPEED_MULTIPLIER = 0.55;
+const URCHIN_LIFETIME_SECONDS = 28;
+const MINE_ARM_SECONDS = 1.5;
+const MINE_FUSE_SECONDS = 16;
+const MINE_BLAST_RADIUS = 120;
+const NET_LIFETIME_SECONDS = 30;
+const NET_STUN_SECONDS = 1.1;
+const NET_TRAP_SECONDS = 3;
+const NET_MAX_TRAPPED_SIZE = 3;
+/** Players this big tear straight through nets instead of getting caught. */
+const NET_TEAR_SIZE_TIER = 4;
+const BOSS_RADIUS_SCALE = 1.3;
+/** Boss health as a multiple of the difficulty's regular apex health. */
+const BOSS_HEALTH_MULTIPLIER = 5;
+/** Arcade bosses arrive at this score milestone (thousands), then every `BOSS_MILESTONE_STEP` after. */
+const BOSS_FIRST_MILESTONE = 20;
+const BOSS_MILESTONE_STEP = 30;
+const BOSS_ENRAGE_SECONDS = 90;
+const BOSS_ENRAGE_SPEED = 1.3;
+const BOSS_ENRAGE_COOLDOWN = 0.6;
+const BOSS_ATTACK_COOLDOWN: Record<BossPhase, number> = { 1: 3.6, 2: 2.9, 3: 2.2 };
+const BOSS_ATTACKS: Record<BossPhase, BossAttackKind[]> = { 1: ['lunge'], 2: ['lunge', 'tail-sweep'], 3: ['lunge', 'tail-sweep', 'summon'] };
+const BOSS_ATTACK_TIMING: Record<BossAttackKind, { windup: number; active: number; recover: number }> = {
+  lunge: { windup: 0.8, active: 0.55, recover: 0.8 },
+  'tail-sweep': { windup: 0.6, active: 0.3, recover: 0.6 },
+  summon: { windup: 0.9, active: 0.1, recover: 0.6 },
+};
+const BOSS_LUNGE_SPEED = 540;
+const BOSS_SWEEP_REACH = 2.1;
+const BOSS_MINIONS = 3;
+/** Summons stop once this many predators are already around. */
+const BOSS_MINION_CAP = 6;
+const BOSS_KILL_POINTS = 5000;
+/** How strongly the player is carried by currents; NPCs use `currentResponse`. */
+const PLAYER_CURRENT_RESPONSE = 0.85;
+/** Share of a fish's sprite radius that has to fit between rocks; the rest is fins and tail. */
+const TERRAIN_BODY_SCALE = 0.55;
+/** How far past its own body a fish looks for rock to steer around. */
+const TERRAIN_LOOKAHEAD = 46;
+const TERRAIN_AVOID_WEIGHT = 1.6;
+/** Small fish under threat dive for a cave tunnel within this range. */
+const SHELTER_RANGE = 200;
+/** Chain lengths where the eat multiplier steps up; reaching one also pays its bonus once. */
+const COMBO_TIERS = [
+  { count: 3, multiplier: 1.5, bonus: 150 },
+  { count: 6, multiplier: 2, bonus: 400 },
+  { count: 10, multiplier: 2.5, bonus: 800 },
+  { count: 15, multiplier: 3, bonus: 1500 },
+];
 
 const playerRadiusForSizeTier = (sizeTier: number) => {
   // Derived from baked-in sprite sizes: visual half-width in arena px at ~85% coverage.
@@ -26,24 +110,26 @@ const spawnRates: Record<EntityKind, keyof GameState['spawnTimers']> = {
   predator: 'predator',
   apex: 'apex',
   hazard: 'hazard',
+  pickup: 'pickup',
 };
 
-const entitySpeed = (kind: EntityKind, aggression = 1): number => {
+const entitySpeed = (rng: RngHolder, kind: EntityKind, aggression = 1): number => {
   switch (kind) {
-    case 'prey': return rnd(70, 130);
-    case 'predator': return rnd(95, 170) * (0.8 + aggression * 0.5);
-    case 'apex': return rnd(140, 210) * (0.9 + aggression * 0.5);
-    case 'hazard': return rnd(55, 105);
+    case 'prey': return rnd(rng, 70, 130);
+    case 'predator': return rnd(rng, 95, 170) * (0.8 + aggression * 0.5);
+    case 'apex': return rnd(rng, 140, 210) * (0.9 + aggression * 0.5);
+    case 'hazard': return rnd(rng, 55, 105);
+    case 'pickup': return rnd(rng, 8, 18);
   }
 };
 
-const npcCruiseSpeed = (sizeClass: FishSizeClass) => {
+const npcCruiseSpeed = (rng: RngHolder, sizeClass: FishSizeClass) => {
   switch (sizeClass) {
-    case 1: return rnd(95, 145);
-    case 2: return rnd(85, 130);
-    case 3: return rnd(78, 122);
-    case 4: return rnd(72, 112);
-    case 5: return rnd(70, 100);
+    case 1: return rnd(rng, 95, 145);
+    case 2: return rnd(rng, 85, 130);
+    case 3: return rnd(rng, 78, 122);
+    case 4: return rnd(rng, 72, 112);
+    case 5: return rnd(rng, 70, 100);
   }
 };
 
@@ -64,29 +150,37 @@ const npcRadiusForSizeClass = (sizeClass: FishSizeClass) => {
   }
 };
 
-const entityRadius = (kind: EntityKind, sizeClass?: FishSizeClass): number => {
+const entityRadius = (rng: RngHolder, kind: EntityKind, sizeClass?: FishSizeClass): number => {
   switch (kind) {
     case 'prey':
     case 'predator':
       return npcRadiusForSizeClass(sizeClass ?? (kind === 'prey' ? 1 : 3));
     case 'apex': return npcRadiusForSizeClass(5);
-    case 'hazard': return rnd(14, 18);
+    case 'hazard': return rnd(rng, 14, 18);
+    case 'pickup': return 16;
   }
 };
 
+const FISH_EXTENT_X = 1.34;
+const APEX_EXTENT_X = 1.18;
+
 const fishExtents = (radius: number, scaleFactor: number) => ({
   // Include more of the visible fish silhouette (especially tail/body length) for fairer contact.
-  rx: radius * 1.34 * scaleFactor,
+  rx: radius * FISH_EXTENT_X * scaleFactor,
   ry: radius * 0.78 * scaleFactor,
 });
 
-const countByKind = (state: GameState, kind: EntityKind) => state.entities.filter((e) => e.kind === kind).length;
+/** Upper bound on how far from its center any entity's collision footprint reaches. */
+const maxFootprintReach = (radius: number, scaleFactor: number) => radius * FISH_EXTENT_X * APEX_EXTENT_X * scaleFactor;
+
+const countByKind = (state: GameState, kind: EntityKind) => state.spatial.counts[kind];
 
 const spawnCapForKind = (state: GameState, kind: EntityKind) => {
   const d = state.difficulty;
   if (kind === 'prey') return d.maxPrey;
   if (kind === 'predator') return d.maxPredators;
   if (kind === 'apex') return d.maxApex;
+  if (kind === 'pickup') return d.maxPickups;
   return d.maxHazards;
 };
 
@@ -95,13 +189,40 @@ const spawnRateForKind = (state: GameState, kind: EntityKind) => {
   if (kind === 'prey') return d.preySpawnPerSecond;
   if (kind === 'predator') return d.predatorSpawnPerSecond;
   if (kind === 'apex') return d.apexSpawnPerSecond;
+  if (kind === 'pickup') return d.pickupSpawnPerSecond;
   return d.hazardSpawnPerSecond;
 };
 
+const scenarioSetup = (state: GameState): ScenarioSetup | undefined => (
+  state.stage?.definition.setup ?? state.challenge?.definition.setup ?? state.daily?.setup
+);
+
+export const scenarioOf = (state: GameState): RunScenario | null => {
+  if (state.stage) return { type: 'stage', stage: state.stage.definition };
+  if (state.challenge) return { type: 'challenge', challenge: state.challenge.definition };
+  if (state.daily) return { type: 'daily', daily: state.daily };
+  return null;
+};
+
+/** Stable identity for comparing scenarios, e.g. `stage:kelp-run`; null for arcade. */
+export const scenarioKey = (scenario: RunScenario | null) => {
+  if (!scenario) return null;
+  switch (scenario.type) {
+    case 'stage': return `stage:${scenario.stage.id}`;
+    case 'challenge': return `challenge:${scenario.challenge.id}`;
+    case 'daily': return `daily:${scenario.daily.dateKey}`;
+  }
+};
+
 const isKindUnlocked = (state: GameState, kind: EntityKind) => {
   const t = state.run.timeSeconds;
   const s = state.run.score;
   const size = state.player.sizeTier;
+  const scenarioUnlock = scenarioSetup(state)?.unlockAtSeconds;
+  if (scenarioUnlock) {
+    const at = scenarioUnlock[kind];
+    return at !== undefined && t >= at;
+  }
   if (kind === 'prey') return true;
   if (kind === 'predator') return t >= 2;
   if (kind === 'apex') {
@@ -109,6 +230,7 @@ const isKindUnlocked = (state: GameState, kind: EntityKind) => {
     if (state.difficulty.key === 'normal') return t >= 20;
     return t >= 16;
   }
+  if (kind === 'pickup') return t >= 8;
   if (kind === 'hazard') {
     if (state.difficulty.key === 'easy') return t >= 38 && (s >= 2500 || size >= 4);
     if (state.difficulty.key === 'normal') return t >= 30 && (s >= 3200 || size >= 4);
@@ -117,10 +239,26 @@ const isKindUnlocked = (state: GameState, kind: EntityKind) => {
   return true;
 };
 
+/** Extra gates per hazard type, applied once `isKindUnlocked` lets hazards spawn at all. */
+const isHazardTypeUnlocked = (state: GameState, type: HazardType) => {
+  const t = state.run.timeSeconds;
+  switch (type) {
+    case 'jellyfish':
+    case 'urchin':
+      return true;
+    case 'mine':
+      if (state.difficulty.key === 'easy') return t >= 60;
+      if (state.difficulty.key === 'normal') return t >= 48;
+      return t >= 36;
+    case 'net':
+      return state.player.sizeTier >= 3 || state.run.score >= 5000;
+  }
+};
+
 const pickNpcSizeForSpawn = (state: GameState, channel: 'prey' | 'predator'): FishSizeClass => {
   const p = state.player.sizeTier as FishSizeClass;
   const t = state.run.timeSeconds;
-  const r = Math.random();
+  const r = nextRandom(state);
 
   if (channel === 'prey') {
     if (t < 12) return r < 0.8 ? 1 : 2;
@@ -142,7 +280,36 @@ const isNpcEdible = (playerTier: number, npcSize: FishSizeClass) => npcSize <= p
 
 const doesNpcAttackPlayer = (playerTier: number, npcSize: FishSizeClass) => npcSize > playerTier;
 
-const canEat = (playerTier: number, entity: Entity) => {
+/** Food-chain size of any fish; apex predators sit above every NPC class. Null for non-fish. */
+const fishSizeOf = (entity: Entity): FishSizeClass | null => {
+  if (entity.kind === 'apex') return 5;
+  if (entity.kind === 'prey' || entity.kind === 'predator') return entity.sizeClass ?? (entity.kind === 'prey' ? 1 : 3);
+  return null;
+};
+
+/** NPCs only eat strictly smaller fish, so fish of one size class school together instead of feeding. */
+const canNpcEat = (hunter: Entity, target: Entity) => {
+  const hunterSize = fishSizeOf(hunter);
+  const targetSize = fishSizeOf(target);
+  if (hunterSize === null || targetSize === null || target.kind === 'apex') return false;
+  return isNpcEdible(hunterSize - 1, targetSize);
+};
+
+const isDigesting = (state: GameState, entity: Entity) => (
+  entity.fedAt !== undefined && state.run.timeSeconds - entity.fedAt < NPC_DIGEST_SECONDS
+);
+
+const npcFleeRadius = (npcSize: FishSizeClass) => 68 + npcSize * 10;
+
+export const isPowerUpActive = (state: GameState, kind: PowerUpKind) => {
+  const until = state.player.powerUps[kind];
+  return until !== undefined && state.run.timeSeconds < until;
+};
+
+/** Size tier the player eats and threatens at; frenzy counts as one tier up. */
+export const playerEatTier = (state: GameState) => state.player.sizeTier + (isPowerUpActive(state, 'frenzy') ? 1 : 0);
+
+export const canEat = (playerTier: number, entity: Entity) => {
   if ((entity.kind === 'prey' || entity.kind === 'predator') && entity.sizeClass) {
     return isNpcEdible(playerTier, entity.sizeClass);
   }
@@ -158,6 +325,32 @@ const pointsForEat = (entity: Entity, multiplier: number) => {
   return Math.floor(base * multiplier);
 };
 
+export const comboMultiplier = (count: number) => (
+  COMBO_TIERS.reduce((multiplier, tier) => (count >= tier.count ? tier.multiplier : multiplier), 1)
+);
+
+/** Adds an eat to the chain and returns the multiplier for its points. */
+const extendCombo = (state: GameState, events: GameEvent[], pos: Vec2) => {
+  const run = state.run;
+  run.comboCount += 1;
+  run.comboExpiresAt = state.run.timeSeconds + COMBO_WINDOW_SECONDS;
+  run.bestCombo = Math.max(run.bestCombo, run.comboCount);
+  const multiplier = comboMultiplier(run.comboCount);
+  const reached = COMBO_TIERS.find((tier) => tier.count === run.comboCount);
+  const bonus = reached ? Math.floor(reached.bonus * state.difficulty.scoreMultiplier) : 0;
+  if (bonus) {
+    run.score += bonus;
+    events.push({ type: 'score', amount: bonus });
+  }
+  if (run.comboCount >= 2) events.push({ type: 'combo', count: run.comboCount, multiplier, bonus, pos: { ...pos } });
+  return multiplier;
+};
+
+const breakCombo = (state: GameState, events: GameEvent[], reason: 'timeout' | 'hit') => {
+  if (state.run.comboCount >= 2) events.push({ type: 'combo-break', count: state.run.comboCount, reason });
+  state.run.comboCount = 0;
+};
+
 const pointsForApexTailHit = (multiplier: number) => Math.floor(500 * multiplier);
 const apexTailDamageForPlayer = (playerTier: number) => (
   playerTier >= 5 ? 3 :
@@ -173,11 +366,11 @@ const overlapsFishFootprint = (
   enemyScale: number,
 ) => {
   const p = fishExtents(player.radius, playerScale);
-  const e = entity.kind === 'hazard'
+  const e = entity.kind === 'hazard' || entity.kind === 'pickup'
     ? { rx: entity.radius * enemyScale, ry: entity.radius * enemyScale }
     : fishExtents(entity.radius, enemyScale);
   if (entity.kind === 'apex') {
-    e.rx *= 1.18;
+    e.rx *= APEX_EXTENT_X;
     e.ry *= 0.96;
   }
   const dx = Math.abs(player.pos.x - entity.pos.x);
@@ -187,34 +380,87 @@ const overlapsFishFootprint = (
   return (dx * dx) / (rx * rx) + (dy * dy) / (ry * ry) <= 1;
 };
 
-export const createInitialGameState = (difficultyKey: DifficultyKey): GameState => {
-  const difficulty = difficulties[difficultyKey];
-  return {
-    seed: Math.floor(Math.random() * 1e9),
+/** The view centered on `pos`, kept inside the arena. */
+const viewCenteredOn = (pos: Vec2): ViewRect => ({
+  x: clamp(pos.x - VIEW.width / 2, 0, ARENA.width - VIEW.width),
+  y: clamp(pos.y - VIEW.height / 2, 0, ARENA.height - VIEW.height),
+  width: VIEW.width,
+  height: VIEW.height,
+});
+
+const followPlayer = (state: GameState, dt: number) => {
+  const target = viewCenteredOn(state.player.pos);
+  const k = 1 - Math.exp(-CAMERA_FOLLOW_RATE * dt);
+  state.view = { ...state.view, x: lerp(state.view.x, target.x, k), y: lerp(state.view.y, target.y, k) };
+};
+
+const isNearView = (state: GameState, pos: Vec2, margin: number) => {
+  const { view } = state;
+  return pos.x > view.x - margin && pos.x < view.x + view.width + margin
+    && pos.y > view.y - margin && pos.y < view.y + view.height + margin;
+};
+
+export const createInitialGameState = (
+  difficultyKey: DifficultyKey,
+  seed = randomSeed(),
+  scenario: RunScenario | null = null,
+): GameState => {
+  const stage = scenario?.type === 'stage' ? scenario.stage : null;
+  const challenge = scenario?.type === 'challenge' ? scenario.challenge : null;
+  const daily = scenario?.type === 'daily' ? scenario.daily : null;
+  const setup = stage?.setup ?? challenge?.setup ?? daily?.setup ?? {};
+  const difficulty = {
+    ...difficulties[challenge?.difficulty ?? daily?.difficulty ?? difficultyKey],
+    ...setup.difficultyOverrides,
+  };
+  const sizeTier = clamp(setup.startingSizeTier ?? 2, 1, MAX_SIZE_TIER);
+  const start = setup.playerStart ?? { x: 0.22, y: 0.5 };
+  // Every player shares the daily seed, so it overrides whatever seed the caller asked for.
+  const runSeed = daily?.seed ?? seed;
+  const playerPos = { x: ARENA.width * start.x, y: ARENA.height * start.y };
+  const state: GameState = {
+    seed: runSeed,
+    rngState: seedRng(runSeed),
     elapsedMs: 0,
     mode: 'title',
     arena: ARENA,
+    view: viewCenteredOn(playerPos),
     difficulty,
     player: {
-      pos: { x: ARENA.width * 0.22, y: ARENA.height * 0.5 },
+      pos: playerPos,
       vel: { x: 0, y: 0 },
-      radius: playerRadiusForSizeTier(2),
-      sizeTier: 2,
+      radius: playerRadiusForSizeTier(sizeTier),
+      sizeTier,
       lives: difficulty.startingLives,
       invulnerableUntil: 0,
+      stunnedUntil: 0,
+      slowedUntil: 0,
+      powerUps: {},
     },
     entities: [],
+    spatial: createSpatialIndex(),
+    currents: generateCurrents(runSeed, ARENA, difficulty.currentStrength),
+    terrain: generateTerrain(runSeed, ARENA),
     run: {
       score: 0,
       timeSeconds: 0,
       preyEaten: 0,
       predatorsAvoided: 0,
       nextGrowthScore: 1000,
-      nextExtraLifeScore: 6000,
+      nextExtraLifeScore: setup.extraLives === false ? Infinity : 6000,
       milestone: 0,
+      apexKills: 0,
+      apexHits: 0,
+      comboCount: 0,
+      comboExpiresAt: 0,
+      bestCombo: 0,
+      nextBossMilestone: BOSS_FIRST_MILESTONE,
+      bossesSpawned: 0,
+      bossesDefeated: 0,
+      endCause: null,
     },
     nextEntityId: 1,
-    spawnTimers: { prey: 0, predator: 0, apex: 0, hazard: 0 },
+    spawnTimers: { prey: 0, predator: 0, apex: 0, hazard: 0, pickup: 0 },
     apexThreat: {
       activeCount: 0,
       intensity: 0,
@@ -222,19 +468,41 @@ export const createInitialGameState = (difficultyKey: DifficultyKey): GameState
       lastKillAt: -999,
     },
     pendingEvents: [],
+    stage: stage ? { definition: stage, status: 'active', stars: 0 } : null,
+    challenge: challenge ? { definition: challenge, status: 'active', tally: emptyChallengeTally(), result: 0 } : null,
+    daily,
   };
+  settlePlayerOnTerrain(state);
+  state.view = viewCenteredOn(state.player.pos);
+  return state;
 };
 
-export const startNewRun = (state: GameState): GameState => {
-  const fresh = createInitialGameState(state.difficulty.key);
+/** Pass a `seed` to reproduce a run; the same seed and input sequence through `tickGame` replay identically. */
+export const startNewRun = (state: GameState, seed?: number): GameState => {
+  const fresh = createInitialGameState(state.difficulty.key, seed, scenarioOf(state));
   fresh.mode = 'playing';
+  for (const [kind, count] of Object.entries(scenarioSetup(fresh)?.initialSpawns ?? {}) as Array<[EntityKind, number]>) {
+    for (let i = 0; i < count; i += 1) {
+      const entity = spawnAtEdge(fresh, kind);
+      fresh.entities.push(entity);
+      insertEntity(fresh.spatial, entity);
+      fresh.nextEntityId += 1;
+    }
+  }
   return fresh;
 };
 
 export const setMode = (state: GameState, mode: GameState['mode']): GameState => ({ ...state, mode });
 
+/** Switches between arcade (null), a campaign stage or a challenge, returning to the title screen. */
+export const setScenario = (state: GameState, scenario: RunScenario | null): GameState => {
+  const next = createInitialGameState(state.difficulty.key, undefined, scenario);
+  next.mode = 'title';
+  return next;
+};
+
 export const setDifficulty = (state: GameState, difficultyKey: DifficultyKey): GameState => {
-  const next = createInitialGameState(difficultyKey);
+  const next = createInitialGameState(difficultyKey, undefined, scenarioOf(state));
   next.mode = 'title';
   return next;
 };
@@ -250,20 +518,24 @@ const spawnAtEdge = (state: GameState, kind: EntityKind): Entity => {
   const npcSize = (kind === 'prey' || kind === 'predator')
     ? pickNpcSizeForSpawn(state, kind)
     : undefined;
-  const edge = Math.floor(rnd(0, 4));
-  const radius = entityRadius(kind, npcSize);
+  const edge = Math.floor(rnd(state, 0, 4));
+  const radius = entityRadius(state, kind, npcSize);
+  // Just outside whichever edge of the view was picked, so new arrivals swim into sight.
+  const { view } = state;
   let pos = { x: 0, y: 0 };
-  if (edge === 0) pos = { x: -radius, y: rnd(0, state.arena.height) };
-  if (edge === 1) pos = { x: state.arena.width + radius, y: rnd(0, state.arena.height) };
-  if (edge === 2) pos = { x: rnd(0, state.arena.width), y: -radius };
-  if (edge === 3) pos = { x: rnd(0, state.arena.width), y: state.arena.height + radius };
+  if (edge === 0) pos = { x: view.x - radius, y: rnd(state, view.y, view.y + view.height) };
+  if (edge === 1) pos = { x: view.x + view.width + radius, y: rnd(state, view.y, view.y + view.height) };
+  if (edge === 2) pos = { x: rnd(state, view.x, view.x + view.width), y: view.y - radius };
+  if (edge === 3) pos = { x: rnd(state, view.x, view.x + view.width), y: view.y + view.height + radius };
 
-  const toCenter = normalize(sub({ x: state.arena.width / 2, y: state.arena.height / 2 }, pos));
+  const toCenter = normalize(sub({ x: view.x + view.width / 2, y: view.y + view.height / 2 }, pos));
   const d = state.difficulty;
   const aggr = kind === 'predator' ? d.predatorAggression : kind === 'apex' ? d.apexAggression : 0.2;
-  const randomBias = normalize({ x: rnd(-1, 1), y: rnd(-1, 1) });
-  const heading = normalize({ x: lerp(randomBias.x, toCenter.x, aggr), y: lerp(randomBias.y, toCenter.y, aggr) });
-  const speed = npcSize ? npcCruiseSpeed(npcSize) : entitySpeed(kind, aggr);
+  const randomBias = normalize({ x: rnd(state, -1, 1), y: rnd(state, -1, 1) });
+  const biased = normalize({ x: lerp(randomBias.x, toCenter.x, aggr), y: lerp(randomBias.y, toCenter.y, aggr) });
+  // Arrivals that would turn straight back out of view are culled before anyone sees them.
+  const heading = biased.x * toCenter.x + biased.y * toCenter.y < 0.35 ? normalize(add(biased, toCenter)) : biased;
+  const speed = npcSize ? npcCruiseSpeed(state, npcSize) : entitySpeed(state, kind, aggr);
 
   const entity: Entity = {
     id: state.nextEntityId,
@@ -286,8 +558,96 @@ const spawnAtEdge = (state: GameState, kind: EntityKind): Entity => {
   return entity;
 };
 
+const pickHazardType = (state: GameState): HazardType => {
+  const available = HAZARD_TYPES.filter((type) => isHazardTypeUnlocked(state, type));
+  const total = available.reduce((sum, type) => sum + HAZARD_WEIGHTS[type], 0);
+  let roll = rnd(state, 0, total);
+  for (const type of available) {
+    roll -= HAZARD_WEIGHTS[type];
+    if (roll < 0) return type;
+  }
+  return 'jellyfish';
+};
+
+/** Jellyfish drift in from any edge; urchins sit on the seabed, mines sink in from above and nets sweep sideways. */
+const spawnHazard = (state: GameState): Entity => {
+  const hazardType = pickHazardType(state);
+  if (hazardType === 'jellyfish') return { ...spawnAtEdge(state, 'hazard'), hazardType };
+  const { height } = state.arena;
+  const { view } = state;
+  const t = state.run.timeSeconds;
+  const base = { id: state.nextEntityId, kind: 'hazard' as const, variant: 1, hazardType };
+  if (hazardType === 'urchin') {
+    const radius = 18;
+    let pos = { x: 0, y: 0 };
+    for (let attempt = 0; attempt < 4; attempt += 1) {
+      pos = { x: rnd(state, view.x + 60, view.x + view.width - 60), y: height - radius * 0.8 };
+      if (!collideWithTerrain(state.terrain, pos, { x: 0, y: 0 }, radius)) break;
+    }
+    return {
+      ...base,
+      radius,
+      pos,
+      vel: { x: 0, y: 0 },
+      expiresAt: t + URCHIN_LIFETIME_SECONDS,
+    };
+  }
+  if (hazardType === 'mine') {
+    const radius = 16;
+    return {
+      ...base,
+      radius,
+      pos: { x: rnd(state, view.x + 80, view.x + view.width - 80), y: view.y - radius },
+      vel: { x: rnd(state, -12, 12), y: rnd(state, 26, 38) },
+      armedAt: t + MINE_ARM_SECONDS,
+      expiresAt: t + MINE_FUSE_SECONDS,
+    };
+  }
+  const radius = 36;
+  const fromLeft = nextRandom(state) < 0.5;
+  return {
+    ...base,
+    radius,
+    pos: { x: fromLeft ? view.x - radius : view.x + view.width + radius, y: rnd(state, view.y + 80, view.y + view.height - 80) },
+    vel: { x: (fromLeft ? 1 : -1) * rnd(state, 28, 42), y: 0 },
+    expiresAt: t + NET_LIFETIME_SECONDS,
+  };
+};
+
+const pickPowerUp = (state: GameState): PowerUpKind => {
+  const weights = state.difficulty.powerUpWeights;
+  const total = POWER_UP_KINDS.reduce((sum, kind) => sum + weights[kind], 0);
+  let roll = rnd(state, 0, total);
+  for (const kind of POWER_UP_KINDS) {
+    roll -= weights[kind];
+    if (roll < 0) return kind;
+  }
+  return POWER_UP_KINDS[0];
+};
+
+/** Pickups appear inside the arena, away from the player, and drift slowly until collected or expired. */
+const spawnPickup = (state: GameState): Entity => {
+  const margin = 60;
+  let pos = { x: 0, y: 0 };
+  for (let attempt = 0; attempt < 4; attempt += 1) {
+    const { view } = state;
+    pos = { x: rnd(state, view.x + margin, view.x + view.width - margin), y: rnd(state, view.y + margin, view.y + view.height - margin) };
+    if (dist(pos, state.player.pos) > 180 && !collideWithTerrain(state.terrain, pos, { x: 0, y: 0 }, 16)) break;
+  }
+  const heading = normalize({ x: rnd(state, -1, 1), y: rnd(state, -1, 1) });
+  return {
+    id: state.nextEntityId,
+    kind: 'pickup',
+    powerUp: pickPowerUp(state),
+    expiresAt: state.run.timeSeconds + state.difficulty.pickupLifetimeSeconds,
+    pos,
+    vel: scale(heading, entitySpeed(state, 'pickup')),
+    radius: entityRadius(state, 'pickup'),
+  };
+};
+
 const maybeSpawn = (state: GameState, dt: number) => {
-  (['prey', 'predator', 'apex', 'hazard'] as const).forEach((kind) => {
+  (['prey', 'predator', 'apex', 'hazard', 'pickup'] as const).forEach((kind) => {
     if (!isKindUnlocked(state, kind)) return;
     state.spawnTimers[spawnRates[kind]] += dt;
     const rate = spawnRateForKind(state, kind);
@@ -295,27 +655,126 @@ const maybeSpawn = (state: GameState, dt: number) => {
     const interval = 1 / rate;
     if (state.spawnTimers[kind] >= interval && countByKind(state, kind) < spawnCapForKind(state, kind)) {
       state.spawnTimers[kind] = 0;
-      const entity = spawnAtEdge(state, kind);
+      const entity = kind === 'pickup' ? spawnPickup(state) : kind === 'hazard' ? spawnHazard(state) : spawnAtEdge(state, kind);
       state.entities.push(entity);
+      insertEntity(state.spatial, entity);
       state.nextEntityId += 1;
     }
   });
 };
 
+const steerToward = (entity: Entity, target: Vec2, turn: number) => {
+  entity.vel.x = lerp(entity.vel.x, target.x, turn);
+  entity.vel.y = lerp(entity.vel.y, target.y, turn);
+};
+
+/** Nearest fish this one can eat within `radius`, ignoring anything farther away than `limit`. */
+const findNpcMeal = (state: GameState, hunter: Entity, radius: number, limit = Infinity) => {
+  if (isDigesting(state, hunter)) return null;
+  const meal = nearestEntity(state.spatial, hunter.pos, radius, (other) => (
+    canNpcEat(hunter, other) && !terrainBlocksLine(state.terrain, hunter.pos, other.pos)
+  ));
+  return meal && dist(meal.pos, hunter.pos) < limit ? meal : null;
+};
+
+/**
+ * Boids steering among nearby fish of the same size: drift toward the school's center, match its
+ * heading, and keep a body length apart. Returns the desired velocity, or null with no schoolmates.
+ */
+const schoolingVelocity = (state: GameState, entity: Entity, npcSize: FishSizeClass): Vec2 | null => {
+  const mates = queryRadius(state.spatial, entity.pos, SCHOOL_RADIUS, (other) => (
+    other.id !== entity.id && fishSizeOf(other) === npcSize
+  ));
+  if (!mates.length) return null;
+  const center = { x: 0, y: 0 };
+  const heading = { x: 0, y: 0 };
+  const separation = { x: 0, y: 0 };
+  const personalSpace = entity.radius * 2.2;
+  for (const mate of mates) {
+    center.x += mate.pos.x;
+    center.y += mate.pos.y;
+    const mateHeading = normalize(mate.vel);
+    heading.x += mateHeading.x;
+    heading.y += mateHeading.y;
+    const gap = dist(entity.pos, mate.pos);
+    if (gap < personalSpace) {
+      const push = scale(normalize(sub(entity.pos, mate.pos)), 1 - gap / personalSpace);
+      separation.x += push.x;
+      separation.y += push.y;
+    }
+  }
+  const cohesion = scale(normalize(sub(scale(center, 1 / mates.length), entity.pos)), SCHOOL_WEIGHTS.cohesion);
+  const alignment = scale(normalize(heading), SCHOOL_WEIGHTS.alignment);
+  const steer = add(add(normalize(entity.vel), cohesion), add(alignment, scale(separation, SCHOOL_WEIGHTS.separation)));
+  const speed = clamp(Math.hypot(entity.vel.x, entity.vel.y), 80, 140);
+  return scale(normalize(steer), speed);
+};
+
+/** Radius that has to clear rock, or null for things that pass over it (nets) or never move (urchins). */
+const terrainBodyRadius = (entity: Entity) => {
+  if (entity.hazardType === 'net' || entity.hazardType === 'urchin') return null;
+  return fishSizeOf(entity) !== null ? entity.radius * TERRAIN_BODY_SCALE : entity.radius;
+};
+
+/** Fleeing small fish head for a tunnel too narrow for their pursuer, unless it lies back past the threat. */
+const fleeHeading = (state: GameState, entity: Entity, npcSize: FishSizeClass, away: Vec2): Vec2 => {
+  if (npcSize > SCHOOLING_MAX_SIZE) return away;
+  const shelter = nearestShelter(state.terrain, entity.pos, entity.radius * TERRAIN_BODY_SCALE, SHELTER_RANGE);
+  if (!shelter) return away;
+  const toShelter = sub(shelter, entity.pos);
+  const gap = Math.hypot(toShelter.x, toShelter.y);
+  // Already tucked in: hold still rather than swimming out the far side.
+  if (gap < 12) return { x: 0, y: 0 };
+  const heading = normalize(toShelter);
+  return heading.x * away.x + heading.y * away.y > -0.2 ? heading : away;
+};
+
+/** Bigger bodies push through the flow; anchored urchins ignore it. */
+const currentResponse = (entity: Entity) => {
+  if (entity.kind === 'apex') return 0.4;
+  if (entity.kind === 'pickup') return 0.7;
+  if (entity.kind === 'hazard') {
+    if (entity.hazardType === 'urchin') return 0;
+    return entity.hazardType === 'mine' || entity.hazardType === 'net' ? 0.5 : 1;
+  }
+  return 1.05 - (fishSizeOf(entity) ?? 1) * 0.1;
+};
+
 const updateEntityAI = (state: GameState, entity: Entity, dt: number) => {
+  if (entity.trappedUntil !== undefined && state.run.timeSeconds < entity.trappedUntil) {
+    entity.vel = { x: 0, y: 0 };
+    return;
+  }
+  if (!entity.boss && !isNearView(state, entity.pos, SIM_MARGIN)) {
+    entity.pos = add(entity.pos, scale(entity.vel, dt));
+    wrap(state, entity);
+    return;
+  }
   if (entity.kind === 'prey' || entity.kind === 'predator') {
     const npcSize = entity.sizeClass ?? (entity.kind === 'prey' ? 1 : 3);
-    const sizeDelta = npcSize - (state.player.sizeTier as FishSizeClass);
+    const playerTier = playerEatTier(state);
+    const sizeDelta = npcSize - playerTier;
     const distanceToPlayer = dist(entity.pos, state.player.pos);
+    const npcThreat = nearestEntity(state.spatial, entity.pos, npcFleeRadius(npcSize), (other) => canNpcEat(other, entity));
+    const attacksPlayer = doesNpcAttackPlayer(playerTier, npcSize);
+    // Fish hunting the player only detour for a meal that is closer than the player.
+    const meal = findNpcMeal(state, entity, NPC_HUNT_RADIUS, attacksPlayer ? distanceToPlayer : Infinity);
 
-    if (!doesNpcAttackPlayer(state.player.sizeTier, npcSize) && distanceToPlayer < (68 + npcSize * 10)) {
-      const away = normalize(sub(entity.pos, state.player.pos));
-      const fleeSpeed = npcCruiseSpeed(npcSize) + 10;
+    if (!attacksPlayer && distanceToPlayer < npcFleeRadius(npcSize)) {
+      const away = fleeHeading(state, entity, npcSize, normalize(sub(entity.pos, state.player.pos)));
+      const fleeSpeed = npcCruiseSpeed(state, npcSize) + 10;
       const target = scale(away, fleeSpeed);
-      const fleeTurn = 0.025 + Math.max(0, (state.player.sizeTier - npcSize)) * 0.006;
+      const fleeTurn = 0.025 + Math.max(0, (playerTier - npcSize)) * 0.006;
       entity.vel.x = lerp(entity.vel.x, target.x, fleeTurn);
       entity.vel.y = lerp(entity.vel.y, target.y, fleeTurn);
-    } else if (doesNpcAttackPlayer(state.player.sizeTier, npcSize)) {
+    } else if (npcThreat) {
+      const away = fleeHeading(state, entity, npcSize, normalize(sub(entity.pos, npcThreat.pos)));
+      const threatSize = fishSizeOf(npcThreat) ?? npcSize;
+      const fleeTurn = 0.025 + (threatSize - npcSize) * 0.006;
+      steerToward(entity, scale(away, npcCruiseSpeed(state, npcSize) + 10), fleeTurn);
+    } else if (meal) {
+      steerToward(entity, scale(normalize(sub(meal.pos, entity.pos)), 80 + npcSize * 12), 0.04 * dt * 60);
+    } else if (attacksPlayer) {
       const chase = normalize(sub(state.player.pos, entity.pos));
       const aggression = clamp(state.difficulty.predatorAggression + Math.max(0, sizeDelta - 1) * 0.08, 0.2, 1);
       const targetSpeed = 88 + npcSize * 10 + aggression * 36;
@@ -323,10 +782,17 @@ const updateEntityAI = (state: GameState, entity: Entity, dt: number) => {
       const turn = (0.022 + aggression * 0.045) * dt * 60;
       entity.vel.x = lerp(entity.vel.x, target.x, turn);
       entity.vel.y = lerp(entity.vel.y, target.y, turn);
+    } else if (npcSize <= SCHOOLING_MAX_SIZE) {
+      // Scattered by a flee above, schools pull back together here once the threat has passed.
+      const school = schoolingVelocity(state, entity, npcSize);
+      if (school) steerToward(entity, school, 0.05 * dt * 60);
     }
   }
-  if (entity.kind === 'apex') {
-    const chase = normalize(sub(state.player.pos, entity.pos));
+  if (entity.boss) {
+    updateBossAI(state, entity, dt);
+  } else if (entity.kind === 'apex') {
+    const meal = findNpcMeal(state, entity, APEX_FEED_RADIUS, dist(entity.pos, state.player.pos));
+    const chase = normalize(sub(meal?.pos ?? state.player.pos, entity.pos));
     const aggression = state.difficulty.apexAggression;
     const targetSpeed = chaseSpeed(entity.kind, aggression);
     const target = scale(chase, targetSpeed);
@@ -336,17 +802,292 @@ const updateEntityAI = (state: GameState, entity: Entity, dt: number) => {
     entity.vel.y = lerp(entity.vel.y, target.y, (turnBase + aggression * turnScale) * dt * 60);
   }
   if (entity.kind === 'hazard') {
-    entity.vel.y += Math.sin((state.elapsedMs + entity.id * 47) / 400) * 0.4;
+    if (entity.hazardType === 'urchin') return;
+    if (entity.hazardType === 'mine') {
+      // Sinks from the surface and slowly settles where it can block a lane.
+      entity.vel.x = lerp(entity.vel.x, 0, 0.002 * dt * 60);
+      entity.vel.y = lerp(entity.vel.y, 0, 0.002 * dt * 60);
+    } else if (entity.hazardType !== 'net') {
+      entity.vel.y += Math.sin((state.elapsedMs + entity.id * 47) / 400) * 0.4;
+    }
+  }
+  const body = terrainBodyRadius(entity);
+  if (body !== null && fishSizeOf(entity) !== null) {
+    const push = terrainAvoidance(state.terrain, entity.pos, entity.vel, body, body + TERRAIN_LOOKAHEAD);
+    if (push.x || push.y) {
+      const speed = Math.hypot(entity.vel.x, entity.vel.y);
+      entity.vel = scale(normalize(add(normalize(entity.vel), scale(push, TERRAIN_AVOID_WEIGHT))), speed);
+    }
   }
-  entity.pos = add(entity.pos, scale(entity.vel, dt));
+  const drift = scale(sampleCurrent(state.currents, entity.pos, state.run.timeSeconds), currentResponse(entity));
+  entity.pos = add(entity.pos, scale(add(entity.vel, drift), dt));
   wrap(state, entity);
+  const settled = body !== null ? collideWithTerrain(state.terrain, entity.pos, entity.vel, body) : null;
+  if (settled) {
+    entity.pos = settled.pos;
+    entity.vel = settled.vel;
+  }
+};
+
+/** Keeps the player out of rock, sliding along it rather than stopping dead. */
+const settlePlayerOnTerrain = (state: GameState) => {
+  const settled = collideWithTerrain(state.terrain, state.player.pos, state.player.vel, state.player.radius * TERRAIN_BODY_SCALE);
+  if (!settled) return;
+  state.player.pos = settled.pos;
+  state.player.vel = settled.vel;
+};
+
+/** Reach of a boss tail sweep, measured from its center. */
+export const bossSweepRadius = (boss: Entity) => boss.radius * BOSS_SWEEP_REACH;
+
+const activeBoss = (state: GameState) => state.entities.find((e) => e.boss);
+
+const bossPhaseFor = (health: number, maxHealth: number): BossPhase => {
+  const fraction = health / maxHealth;
+  if (fraction > 2 / 3) return 1;
+  return fraction > 1 / 3 ? 2 : 3;
+};
+
+const facingOf = (entity: Entity) => (entity.vel.x === 0 ? 1 : Math.sign(entity.vel.x));
+
+const spawnBoss = (state: GameState) => {
+  const boss = spawnAtEdge(state, 'apex');
+  const t = state.run.timeSeconds;
+  const maxHealth = state.difficulty.apexMaxHealth * BOSS_HEALTH_MULTIPLIER;
+  boss.radius *= BOSS_RADIUS_SCALE;
+  boss.combat = { maxHealth, health: maxHealth, flashUntil: -1, lastHitAt: -999 };
+  boss.boss = { phase: 1, startedAt: t, enraged: false, attack: null, nextAttackAt: t + 2.5 };
+  state.entities.push(boss);
+  insertEntity(state.spatial, boss);
+  state.nextEntityId += 1;
+  state.run.bossesSpawned += 1;
+  state.pendingEvents.push({ type: 'boss-spawned', entityId: boss.id, maxHealth });
+};
+
+/** Scenario bosses arrive once at `bossAtSeconds`; arcade runs get one per milestone step. Never two at a time. */
+const maybeStartBoss = (state: GameState) => {
+  if (activeBoss(state)) return;
+  const scheduled = scenarioSetup(state)?.bossAtSeconds;
+  if (scheduled !== undefined) {
+    if (state.run.bossesSpawned === 0 && state.run.timeSeconds >= scheduled) spawnBoss(state);
+    return;
+  }
+  if (scenarioOf(state) || state.run.milestone < state.run.nextBossMilestone) return;
+  state.run.nextBossMilestone += BOSS_MILESTONE_STEP;
+  spawnBoss(state);
+};
+
+const spawnBossMinions = (state: GameState, boss: Entity) => {
+  const room = BOSS_MINION_CAP - countByKind(state, 'predator');
+  const count = Math.min(BOSS_MINIONS, room);
+  for (let i = 0; i < count; i += 1) {
+    const angle = (i / BOSS_MINIONS) * Math.PI * 2 + rnd(state, -0.4, 0.4);
+    const heading = { x: Math.cos(angle), y: Math.sin(angle) };
+    const minion: Entity = {
+      id: state.nextEntityId,
+      kind: 'predator',
+      sizeClass: 3,
+      variant: 1,
+      pos: add(boss.pos, scale(heading, boss.radius * 1.2)),
+      vel: scale(heading, npcCruiseSpeed(state, 3)),
+      radius: entityRadius(state, 'predator', 3),
+    };
+    state.entities.push(minion);
+    insertEntity(state.spatial, minion);
+    state.nextEntityId += 1;
+  }
+  state.pendingEvents.push({ type: 'boss-summon', entityId: boss.id, count, pos: { ...boss.pos } });
 };
 
+/** Picks the next attack: a sweep when the player lurks behind the tail, otherwise anything the phase allows. */
+const beginBossAttack = (state: GameState, boss: Entity) => {
+  const b = boss.boss!;
+  const t = state.run.timeSeconds;
+  const facing = facingOf(boss);
+  const behind = (state.player.pos.x - boss.pos.x) * facing < 0 && dist(state.player.pos, boss.pos) < bossSweepRadius(boss) * 1.3;
+  const options = BOSS_ATTACKS[b.phase].filter((kind) => (
+    kind === 'tail-sweep' ? behind : kind !== 'summon' || countByKind(state, 'predator') < BOSS_MINION_CAP
+  ));
+  const kind = behind && options.includes('tail-sweep')
+    ? 'tail-sweep'
+    : options.filter((k) => k !== 'tail-sweep')[Math.floor(rnd(state, 0, options.filter((k) => k !== 'tail-sweep').length))];
+  const dir = kind === 'lunge' ? normalize(sub(state.player.pos, boss.pos)) : { x: facing, y: 0 };
+  const until = t + BOSS_ATTACK_TIMING[kind].windup;
+  b.attack = { kind, stage: 'windup', until, dir };
+  state.pendingEvents.push({ type: 'boss-telegraph', entityId: boss.id, attack: kind, until });
+};
+
+const advanceBossAttack = (state: GameState, boss: Entity) => {
+  const b = boss.boss!;
+  const attack = b.attack!;
+  const t = state.run.timeSeconds;
+  const timing = BOSS_ATTACK_TIMING[attack.kind];
+  if (attack.stage === 'windup') {
+    b.attack = { ...attack, stage: 'active', until: t + timing.active };
+    if (attack.kind === 'summon') spawnBossMinions(state, boss);
+    if (attack.kind === 'tail-sweep') {
+      const radius = bossSweepRadius(boss);
+      state.pendingEvents.push({ type: 'boss-tail-sweep', entityId: boss.id, pos: { ...boss.pos }, radius });
+      const behind = (state.player.pos.x - boss.pos.x) * attack.dir.x < 0;
+      const invulnerable = t < state.player.invulnerableUntil;
+      if (behind && !invulnerable && dist(state.player.pos, boss.pos) < radius + state.player.radius * 0.5) {
+        loseLife(state, boss, state.pendingEvents);
+      }
+    }
+  } else if (attack.stage === 'active') {
+    b.attack = { ...attack, stage: 'recover', until: t + timing.recover };
+  } else {
+    b.attack = null;
+    b.nextAttackAt = t + BOSS_ATTACK_COOLDOWN[b.phase] * (b.enraged ? BOSS_ENRAGE_COOLDOWN : 1);
+  }
+};
+
+/** Cruises after the player between attacks; every attack telegraphs with a near-stop wind-up first. */
+const updateBossAI = (state: GameState, boss: Entity, dt: number) => {
+  const b = boss.boss!;
+  const t = state.run.timeSeconds;
+  if (!b.enraged && t - b.startedAt >= BOSS_ENRAGE_SECONDS) {
+    b.enraged = true;
+    state.pendingEvents.push({ type: 'boss-enraged', entityId: boss.id });
+  }
+  const pace = b.enraged ? BOSS_ENRAGE_SPEED : 1;
+  if (b.attack && t >= b.attack.until) advanceBossAttack(state, boss);
+  if (!b.attack && t >= b.nextAttackAt) beginBossAttack(state, boss);
+  const attack = b.attack;
+  if (!attack) {
+    const aggression = state.difficulty.apexAggression;
+    const chase = scale(normalize(sub(state.player.pos, boss.pos)), chaseSpeed('apex', aggression) * pace);
+    steerToward(boss, chase, (0.018 + aggression * 0.03) * dt * 60);
+  } else if (attack.stage === 'windup') {
+    // Creep along the locked direction so the facing, and the telegraph, stay put.
+    steerToward(boss, scale(attack.dir, 20), 0.2 * dt * 60);
+  } else if (attack.stage === 'active' && attack.kind === 'lunge') {
+    boss.vel = scale(attack.dir, BOSS_LUNGE_SPEED * pace);
+  } else {
+    steerToward(boss, scale(attack.dir, 12), 0.1 * dt * 60);
+  }
+};
+
+/** Tail hits drive the phase; each new phase skips the cooldown and attacks straight away. */
+const updateBossPhase = (state: GameState, boss: Entity, events: GameEvent[]) => {
+  const b = boss.boss!;
+  const phase = bossPhaseFor(Math.max(boss.combat!.health, 0), boss.combat!.maxHealth);
+  if (phase <= b.phase || boss.combat!.health <= 0) return;
+  b.phase = phase;
+  if (!b.attack) b.nextAttackAt = state.run.timeSeconds;
+  events.push({ type: 'boss-phase', entityId: boss.id, phase });
+};
+
+/** Moves the player to a fresh spot after a lost life; `tickGame` clears the area around it at the end of the pass. */
 const resetPlayerAfterHit = (state: GameState) => {
-  state.player.pos = { x: state.arena.width * 0.18, y: rnd(100, state.arena.height - 100) };
+  state.player.pos = { x: state.view.x + state.view.width * 0.18, y: state.view.y + rnd(state, 100, state.view.height - 100) };
   state.player.vel = { x: 0, y: 0 };
+  settlePlayerOnTerrain(state);
   state.player.invulnerableUntil = state.run.timeSeconds + state.difficulty.graceSecondsAfterRespawn;
-  state.entities = state.entities.filter((e) => dist(e.pos, state.player.pos) > 120);
+  state.player.stunnedUntil = 0;
+  state.player.slowedUntil = 0;
+};
+
+const clearRespawnArea = (state: GameState) => {
+  state.entities = state.entities.filter((e) => dist(e.pos, state.player.pos) > RESPAWN_CLEAR_RADIUS);
+};
+
+const endRun = (state: GameState, events: GameEvent[], reason: RunFailReason, killedBy?: Entity) => {
+  state.mode = 'gameOver';
+  state.run.endCause = killedBy ? killedBy.hazardType ?? killedBy.kind : reason === 'lives' ? null : reason;
+  if (state.stage) {
+    state.stage.status = 'failed';
+    events.push({ type: 'stage-failed', stageId: state.stage.definition.id, reason });
+  }
+  if (state.challenge) {
+    state.challenge.status = 'failed';
+    events.push({ type: 'challenge-failed', challengeId: state.challenge.definition.id, reason });
+  }
+  events.push({ type: 'game-over', finalScore: state.run.score });
+};
+
+/** Spends an active shield on an incoming hit; true when the hit was absorbed. */
+const absorbWithShield = (state: GameState, events: GameEvent[]) => {
+  if (!isPowerUpActive(state, 'shield')) return false;
+  delete state.player.powerUps.shield;
+  state.player.invulnerableUntil = state.run.timeSeconds + SHIELD_BREAK_GRACE_SECONDS;
+  events.push({ type: 'power-up-expired', powerUp: 'shield', reason: 'used' });
+  return true;
+};
+
+const loseLife = (state: GameState, entity: Entity, events: GameEvent[]) => {
+  if (absorbWithShield(state, events)) return;
+  breakCombo(state, events, 'hit');
+  state.player.lives -= 1;
+  events.push({
+    type: 'player-hit',
+    livesRemaining: state.player.lives,
+    cause: entity.kind,
+    ...(entity.hazardType ? { hazard: entity.hazardType } : {}),
+  });
+  if (state.player.lives <= 0) {
+    endRun(state, events, 'lives', entity);
+  } else {
+    resetPlayerAfterHit(state);
+  }
+};
+
+/** Marks an entity other than the one being resolved for removal; the end-of-tick sweep drops it. */
+const despawn = (state: GameState, entity: Entity) => {
+  entity.expiresAt = state.run.timeSeconds;
+  removeEntity(state.spatial, entity);
+};
+
+const isGone = (state: GameState, entity: Entity) => entity.expiresAt !== undefined && state.run.timeSeconds >= entity.expiresAt;
+
+const stunPlayer = (state: GameState, cause: HazardType, seconds: number, events: GameEvent[]) => {
+  const until = state.run.timeSeconds + seconds;
+  state.player.stunnedUntil = until;
+  breakCombo(state, events, 'hit');
+  events.push({ type: 'player-stunned', cause, until });
+};
+
+/** Blast kills every NPC fish in range; apex predators shrug it off. The player only loses a life when caught in it. */
+const detonateMine = (state: GameState, mine: Entity, events: GameEvent[]) => {
+  const victims = queryRadius(state.spatial, mine.pos, MINE_BLAST_RADIUS, (e) => (
+    (e.kind === 'prey' || e.kind === 'predator') && !terrainBlocksLine(state.terrain, mine.pos, e.pos)
+  ));
+  for (const victim of victims) despawn(state, victim);
+  events.push({ type: 'mine-exploded', entityId: mine.id, pos: { ...mine.pos }, radius: MINE_BLAST_RADIUS, npcKills: victims.length });
+  const invulnerable = state.run.timeSeconds < state.player.invulnerableUntil;
+  const exposed = dist(state.player.pos, mine.pos) <= MINE_BLAST_RADIUS + state.player.radius * 0.5
+    && !terrainBlocksLine(state.terrain, mine.pos, state.player.pos);
+  if (!invulnerable && exposed) {
+    loseLife(state, mine, events);
+  }
+};
+
+const handleHazardContact = (state: GameState, hazard: Entity, invulnerable: boolean, events: GameEvent[]) => {
+  const t = state.run.timeSeconds;
+  switch (hazard.hazardType) {
+    case 'jellyfish':
+      // Stings stun and slow rather than kill, and cannot re-trigger while the slow lasts.
+      if (!invulnerable && t >= state.player.slowedUntil && !absorbWithShield(state, events)) {
+        state.player.slowedUntil = t + JELLYFISH_SLOW_SECONDS;
+        stunPlayer(state, 'jellyfish', JELLYFISH_STUN_SECONDS, events);
+      }
+      return false;
+    case 'mine':
+      if (t < (hazard.armedAt ?? 0)) return false;
+      detonateMine(state, hazard, events);
+      return true;
+    case 'net':
+      if (state.player.sizeTier >= NET_TEAR_SIZE_TIER) {
+        events.push({ type: 'net-torn', entityId: hazard.id, pos: { ...hazard.pos } });
+        return true;
+      }
+      if (invulnerable) return false;
+      stunPlayer(state, 'net', NET_STUN_SECONDS, events);
+      return true;
+    default:
+      if (!invulnerable) loseLife(state, hazard, events);
+      return false;
+  }
 };
 
 const handlePlayerCollision = (state: GameState, entity: Entity): { consumed: boolean; events: GameEvent[] } => {
@@ -356,8 +1097,19 @@ const handlePlayerCollision = (state: GameState, entity: Entity): { consumed: bo
     return { consumed: false, events };
   }
 
+  if (entity.kind === 'pickup' && entity.powerUp) {
+    const expiresAt = state.run.timeSeconds + d.powerUpSeconds[entity.powerUp];
+    state.player.powerUps[entity.powerUp] = expiresAt;
+    events.push({ type: 'power-up', powerUp: entity.powerUp, expiresAt, pos: { ...entity.pos } });
+    return { consumed: true, events };
+  }
+
   const invulnerable = state.run.timeSeconds < state.player.invulnerableUntil;
 
+  if (entity.kind === 'hazard') {
+    return { consumed: handleHazardContact(state, entity, invulnerable, events), events };
+  }
+
   // Apex collision uses two zones: front 70% hurts player, back 30% is where player damages apex.
   if (entity.kind === 'apex' && entity.combat) {
     const apexFacingX = entity.vel.x === 0 ? 1 : Math.sign(entity.vel.x);
@@ -378,6 +1130,7 @@ const handlePlayerCollision = (state: GameState, entity: Entity): { consumed: bo
         entity.combat.health -= damage;
         const points = pointsForApexTailHit(d.scoreMultiplier);
         state.run.score += points;
+        state.run.apexHits += 1;
         state.apexThreat.lastHitAt = state.run.timeSeconds;
         const intensity = clamp(1 - entity.combat.health / entity.combat.maxHealth, 0, 1);
         state.apexThreat.intensity = Math.max(state.apexThreat.intensity, intensity);
@@ -392,13 +1145,28 @@ const handlePlayerCollision = (state: GameState, entity: Entity): { consumed: bo
         });
         events.push({ type: 'score', amount: points });
         events.push({ type: 'apex-intensity', value: state.apexThreat.intensity });
+        if (entity.boss) updateBossPhase(state, entity, events);
         if (entity.combat.health <= 0) {
           state.apexThreat.lastKillAt = state.run.timeSeconds;
+          state.run.apexKills += 1;
           state.apexThreat.intensity = 0;
           const killBonus = points * 2;
           state.run.score += killBonus;
           events.push({ type: 'score', amount: killBonus });
           events.push({ type: 'apex-killed', entityId: entity.id, points: killBonus, pos: { ...entity.pos } });
+          if (entity.boss) {
+            const bossPoints = Math.floor(BOSS_KILL_POINTS * d.scoreMultiplier);
+            state.run.score += bossPoints;
+            state.run.bossesDefeated += 1;
+            events.push({ type: 'score', amount: bossPoints });
+            events.push({
+              type: 'boss-defeated',
+              entityId: entity.id,
+              points: bossPoints,
+              pos: { ...entity.pos },
+              durationSeconds: state.run.timeSeconds - entity.boss.startedAt,
+            });
+          }
           return { consumed: true, events };
         }
       }
@@ -406,45 +1174,28 @@ const handlePlayerCollision = (state: GameState, entity: Entity): { consumed: bo
     }
 
     // Front 70%: apex damages player
-    if (!invulnerable) {
-      state.player.lives -= 1;
-      events.push({ type: 'player-hit', livesRemaining: state.player.lives });
-      if (state.player.lives <= 0) {
-        state.mode = 'gameOver';
-        events.push({ type: 'game-over', finalScore: state.run.score });
-      } else {
-        resetPlayerAfterHit(state);
-      }
-    }
+    if (!invulnerable) loseLife(state, entity, events);
     return { consumed: false, events };
   }
 
   // Regular fish collision
-  const edible = canEat(state.player.sizeTier, entity);
+  const edible = canEat(playerEatTier(state), entity);
 
   if (edible) {
-    const points = pointsForEat(entity, d.scoreMultiplier);
+    const multiplier = extendCombo(state, events, entity.pos);
+    const points = Math.floor(pointsForEat(entity, d.scoreMultiplier) * multiplier);
     state.run.score += points;
     if (entity.kind === 'prey' || entity.kind === 'predator') state.run.preyEaten += 1;
     events.push({ type: 'eat', kind: entity.kind, sizeClass: entity.sizeClass }, { type: 'score', amount: points });
     return { consumed: true, events };
   }
 
-  if (!invulnerable) {
-    state.player.lives -= 1;
-    events.push({ type: 'player-hit', livesRemaining: state.player.lives });
-    if (state.player.lives <= 0) {
-      state.mode = 'gameOver';
-      events.push({ type: 'game-over', finalScore: state.run.score });
-    } else {
-      resetPlayerAfterHit(state);
-    }
-  }
+  if (!invulnerable) loseLife(state, entity, events);
   return { consumed: false, events };
 };
 
 const updateGrowthAndLives = (state: GameState) => {
-  while (state.run.score >= state.run.nextGrowthScore) {
+  while (!scenarioSetup(state)?.growthLocked && state.run.score >= state.run.nextGrowthScore) {
     if (state.player.sizeTier < MAX_SIZE_TIER) {
       state.player.sizeTier += 1;
       state.player.radius = playerRadiusForSizeTier(state.player.sizeTier);
@@ -454,7 +1205,7 @@ const updateGrowthAndLives = (state: GameState) => {
         state.run.nextExtraLifeScore = state.run.nextGrowthScore;
       }
     } else {
-      if (state.run.score >= state.run.nextExtraLifeScore) {
+      if (scenarioSetup(state)?.extraLives !== false && state.run.score >= state.run.nextExtraLifeScore) {
         state.player.lives += 1;
         state.pendingEvents.push({ type: 'extra-life', lives: state.player.lives });
         state.run.nextExtraLifeScore += state.difficulty.extraLifeScoreStep;
@@ -471,6 +1222,58 @@ const updateGrowthAndLives = (state: GameState) => {
   }
 };
 
+const updateStageObjective = (state: GameState) => {
+  const stage = state.stage;
+  if (!stage || stage.status !== 'active' || state.mode !== 'playing') return;
+  const { definition } = stage;
+  if (isObjectiveMet(state, definition.objective)) {
+    stage.status = 'complete';
+    stage.stars = starsForStage(state, definition);
+    state.mode = 'gameOver';
+    state.run.endCause = 'cleared';
+    state.pendingEvents.push({ type: 'stage-complete', stageId: definition.id, stars: stage.stars, score: state.run.score });
+    return;
+  }
+  const limit = definition.setup.timeLimitSeconds;
+  if (limit !== undefined && state.run.timeSeconds >= limit) {
+    endRun(state, state.pendingEvents, 'time');
+  }
+};
+
+const tallyChallengeEvents = (tally: ChallengeTally, events: GameEvent[]) => {
+  for (const e of events) {
+    if (e.type === 'eat') tally.eaten += 1;
+    if (e.type === 'growth') tally.growths += 1;
+    if (e.type === 'player-hit') tally.hitsTaken += 1;
+    if (e.type === 'apex-hit') tally.apexHits += 1;
+    if (e.type === 'apex-killed') tally.apexKills += 1;
+  }
+};
+
+const updateChallenge = (state: GameState) => {
+  const challenge = state.challenge;
+  if (!challenge || challenge.status !== 'active') return;
+  tallyChallengeEvents(challenge.tally, state.pendingEvents);
+  if (state.mode !== 'playing') return;
+  const { definition, tally } = challenge;
+  if (definition.succeeded(tally, state)) {
+    challenge.status = 'complete';
+    challenge.result = definition.metric.value(tally, state);
+    state.mode = 'gameOver';
+    state.run.endCause = 'cleared';
+    state.pendingEvents.push({ type: 'challenge-complete', challengeId: definition.id, result: challenge.result });
+    return;
+  }
+  if (definition.failed?.(tally, state)) {
+    endRun(state, state.pendingEvents, 'rule');
+    return;
+  }
+  const limit = definition.setup.timeLimitSeconds;
+  if (limit !== undefined && state.run.timeSeconds >= limit) {
+    endRun(state, state.pendingEvents, 'time');
+  }
+};
+
 const updateApexThreatState = (state: GameState) => {
   const apexEntities = state.entities.filter((e) => e.kind === 'apex');
   state.apexThreat.activeCount = apexEntities.length;
@@ -486,21 +1289,133 @@ const updateApexThreatState = (state: GameState) => {
   state.apexThreat.intensity = Math.max(state.apexThreat.intensity * 0.985, avgDamage);
 };
 
+const resolvePlayerCollisions = (state: GameState) => {
+  const d = state.difficulty;
+  const reach = maxFootprintReach(state.player.radius, d.playerHitboxScale)
+    + maxFootprintReach(state.spatial.maxRadius, d.enemyHitboxScale);
+  // Entities are kept in id order, so sorting candidates preserves the full-scan resolution order.
+  const candidatesAfter = (id: number) => queryRadius(state.spatial, state.player.pos, reach, (e) => e.id > id)
+    .sort((a, b) => a.id - b.id);
+  const consumed = new Set<number>();
+  let candidates = candidatesAfter(0);
+  for (let i = 0; i < candidates.length; i += 1) {
+    const entity = candidates[i];
+    // Rock between the two shelters either side; small fish hide in tunnels this way.
+    if (isGone(state, entity) || terrainBlocksLine(state.terrain, state.player.pos, entity.pos)) continue;
+    const { pos } = state.player;
+    const result = handlePlayerCollision(state, entity);
+    state.pendingEvents.push(...result.events);
+    if (result.consumed) {
+      consumed.add(entity.id);
+      removeEntity(state.spatial, entity);
+    }
+    // A respawn moves the player; the rest of the pass resolves at the new position.
+    if (state.player.pos !== pos) {
+      candidates = candidatesAfter(entity.id);
+      i = -1;
+    }
+  }
+  return consumed;
+};
+
+/** Expires timed effects, plus any entity past its `expiresAt` (stale pickups, hazards, despawns) or far out of view. */
+const sweepExpired = (state: GameState) => {
+  for (const kind of POWER_UP_KINDS) {
+    const until = state.player.powerUps[kind];
+    if (until === undefined || state.run.timeSeconds < until) continue;
+    delete state.player.powerUps[kind];
+    state.pendingEvents.push({ type: 'power-up-expired', powerUp: kind, reason: 'timeout' });
+  }
+  const keep = (e: Entity) => (
+    (e.expiresAt === undefined || state.run.timeSeconds < e.expiresAt) && (!!e.boss || isNearView(state, e.pos, CULL_MARGIN))
+  );
+  if (!state.entities.every(keep)) state.entities = state.entities.filter(keep);
+};
+
+/** Drags fish the player can currently eat toward the player, stronger the closer they are. */
+const applyMagnet = (state: GameState, dt: number) => {
+  if (!isPowerUpActive(state, 'magnet')) return;
+  const tier = playerEatTier(state);
+  for (const entity of queryRadius(state.spatial, state.player.pos, MAGNET_RADIUS, (e) => canEat(tier, e))) {
+    const gap = dist(entity.pos, state.player.pos);
+    const pull = MAGNET_PULL * (1 - gap / MAGNET_RADIUS) * dt;
+    entity.pos = add(entity.pos, scale(normalize(sub(state.player.pos, entity.pos)), Math.min(pull, gap)));
+  }
+};
+
+/** Hazard effects on NPCs: armed mines go off when any fish swims into them or the fuse runs out, nets snag small fish. */
+const resolveHazards = (state: GameState, entities: Entity[], consumed: Set<number>) => {
+  const t = state.run.timeSeconds;
+  for (const hazard of entities) {
+    if (hazard.kind !== 'hazard' || consumed.has(hazard.id)) continue;
+    if (hazard.hazardType === 'mine' && t >= (hazard.armedAt ?? 0)) {
+      const fuseOut = t >= (hazard.expiresAt ?? Infinity);
+      const tripped = fuseOut || nearestEntity(state.spatial, hazard.pos, hazard.radius + state.spatial.maxRadius, (e) => (
+        fishSizeOf(e) !== null && dist(e.pos, hazard.pos) < hazard.radius + e.radius * 0.6
+      ));
+      if (!tripped) continue;
+      consumed.add(hazard.id);
+      removeEntity(state.spatial, hazard);
+      detonateMine(state, hazard, state.pendingEvents);
+    }
+    if (hazard.hazardType === 'net' && !isGone(state, hazard)) {
+      const caught = queryRadius(state.spatial, hazard.pos, hazard.radius + state.spatial.maxRadius, (e) => {
+        const size = fishSizeOf(e);
+        return size !== null && size <= NET_MAX_TRAPPED_SIZE && (e.trappedUntil ?? 0) <= t
+          && dist(e.pos, hazard.pos) < hazard.radius + e.radius * 0.5;
+      }).sort((a, b) => a.id - b.id);
+      for (const fish of caught) {
+        fish.trappedUntil = t + NET_TRAP_SECONDS;
+        state.pendingEvents.push({ type: 'fish-trapped', entityId: fish.id, pos: { ...fish.pos } });
+      }
+    }
+  }
+};
+
+/** Larger fish eat smaller ones they are touching, one meal per hunter before it has to digest. */
+const resolveNpcPredation = (state: GameState, entities: Entity[], eaten: Set<number>) => {
+  for (const hunter of entities) {
+    if (eaten.has(hunter.id) || isGone(state, hunter) || isDigesting(state, hunter)) continue;
+    const reach = hunter.radius + state.spatial.maxRadius;
+    const meal = nearestEntity(state.spatial, hunter.pos, reach, (other) => (
+      canNpcEat(hunter, other) && dist(other.pos, hunter.pos) < (hunter.radius + other.radius) * NPC_BITE_REACH
+      && !terrainBlocksLine(state.terrain, hunter.pos, other.pos)
+    ));
+    if (!meal) continue;
+    eaten.add(meal.id);
+    removeEntity(state.spatial, meal);
+    hunter.fedAt = state.run.timeSeconds;
+    state.pendingEvents.push({
+      type: 'npc-eat',
+      predatorId: hunter.id,
+      predatorKind: hunter.kind,
+      preyId: meal.id,
+      preySizeClass: fishSizeOf(meal) ?? 1,
+      pos: { ...meal.pos },
+    });
+  }
+};
+
 export const tickGame = (prev: GameState, input: InputState, dtMs: number): GameState => {
+  const entities = prev.entities.map((e) => ({
+    ...e,
+    pos: { ...e.pos },
+    vel: { ...e.vel },
+    combat: e.combat ? { ...e.combat } : undefined,
+    boss: e.boss ? { ...e.boss, attack: e.boss.attack ? { ...e.boss.attack, dir: { ...e.boss.attack.dir } } : null } : undefined,
+  }));
   const state: GameState = {
     ...prev,
     elapsedMs: prev.elapsedMs + dtMs,
     run: { ...prev.run },
-    player: { ...prev.player, pos: { ...prev.player.pos }, vel: { ...prev.player.vel } },
-    entities: prev.entities.map((e) => ({
-      ...e,
-      pos: { ...e.pos },
-      vel: { ...e.vel },
-      combat: e.combat ? { ...e.combat } : undefined,
-    })),
+    player: { ...prev.player, pos: { ...prev.player.pos }, vel: { ...prev.player.vel }, powerUps: { ...prev.player.powerUps } },
+    entities,
+    spatial: buildSpatialIndex(entities),
     spawnTimers: { ...prev.spawnTimers },
     apexThreat: { ...prev.apexThreat },
     pendingEvents: [],
+    stage: prev.stage ? { ...prev.stage } : null,
+    challenge: prev.challenge ? { ...prev.challenge, tally: { ...prev.challenge.tally } } : null,
   };
 
   if (input.pausePressed && state.mode === 'playing') state.mode = 'paused';
@@ -513,25 +1428,41 @@ export const tickGame = (prev: GameState, input: InputState, dtMs: number): Game
 
   maybeSpawn(state, dt);
 
-  const moveDir = normalize(input.movement);
-  const desiredVel = scale(moveDir, state.difficulty.playerSpeed);
+  const moveDir = clampLength(input.movement, 1);
+  const speedBoost = isPowerUpActive(state, 'speed') ? SPEED_BOOST_MULTIPLIER : 1;
+  const slowed = state.run.timeSeconds < state.player.slowedUntil ? SLOWED_SPEED_MULTIPLIER : 1;
+  const stunned = state.run.timeSeconds < state.player.stunnedUntil;
+  const desiredVel = stunned ? { x: 0, y: 0 } : scale(moveDir, state.difficulty.playerSpeed * speedBoost * slowed);
   state.player.vel.x = lerp(state.player.vel.x, desiredVel.x, state.difficulty.playerTurnLerp);
   state.player.vel.y = lerp(state.player.vel.y, desiredVel.y, state.difficulty.playerTurnLerp);
-  state.player.pos = add(state.player.pos, scale(state.player.vel, dt));
+  // Currents carry the player on top of their own swimming, stunned or not.
+  const drift = scale(sampleCurrent(state.currents, state.player.pos, state.run.timeSeconds), PLAYER_CURRENT_RESPONSE);
+  state.player.pos = add(state.player.pos, scale(add(state.player.vel, drift), dt));
   state.player.pos.x = clamp(state.player.pos.x, 0, state.arena.width);
   state.player.pos.y = clamp(state.player.pos.y, 0, state.arena.height);
+  settlePlayerOnTerrain(state);
+  followPlayer(state, dt);
+  // From here on only a respawn reassigns the player's position.
+  const settledPos = state.player.pos;
 
   state.entities.forEach((e) => updateEntityAI(state, e, dt));
+  applyMagnet(state, dt);
+  state.spatial = buildSpatialIndex(state.entities);
 
-  const survivors: Entity[] = [];
-  for (const entity of state.entities) {
-    const result = handlePlayerCollision(state, entity);
-    state.pendingEvents.push(...result.events);
-    if (!result.consumed) survivors.push(entity);
-  }
-  state.entities = survivors;
+  const moved = state.entities;
+  const consumed = resolvePlayerCollisions(state);
+  resolveNpcPredation(state, moved, consumed);
+  resolveHazards(state, moved, consumed);
+  state.entities = consumed.size ? moved.filter((e) => !consumed.has(e.id)) : moved;
+  // Cleared only now that the pass is over, so a respawn anywhere in this tick clears against the final list.
+  if (state.player.pos !== settledPos) clearRespawnArea(state);
 
+  sweepExpired(state);
+  if (state.run.comboCount > 0 && state.run.timeSeconds >= state.run.comboExpiresAt) breakCombo(state, state.pendingEvents, 'timeout');
   updateGrowthAndLives(state);
+  maybeStartBoss(state);
+  updateStageObjective(state);
+  updateChallenge(state);
   updateApexThreatState(state);
   return state;
 };
@@ -1,3 +1,12 @@
+export * from './achievements';
+export * from './bindings';
+export * from './campaign';
+export * from './challenges';
 export * from './config';
+export * from './currents';
+export * from './daily';
 export * from './engine';
+export * from './leaderboard';
+export * from './spatial';
+export * from './terrain';
 export * from './types';
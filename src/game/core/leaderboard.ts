@@ -0,0 +1,72 @@
+import { scenarioOf } from './engine';
+import type { DifficultyKey, GameState, LeaderboardEntry, PlayModeKey, RunEndCause } from './types';
+
+/** Entries kept per mode and difficulty. */
+export const LEADERBOARD_SIZE = 10;
+
+const INITIALS_LENGTH = 3;
+
+/** Which menu mode a run belongs to, taken from its scenario rather than the current menu selection. */
+export const runModeOf = (state: GameState): PlayModeKey => {
+  const scenario = scenarioOf(state);
+  if (!scenario) return 'arcade';
+  return scenario.type === 'stage' ? 'campaign' : 'challenges';
+};
+
+export const leaderboardEntryFor = (state: GameState, date: number): LeaderboardEntry => ({
+  id: `${date.toString(36)}-${state.seed.toString(36)}`,
+  mode: runModeOf(state),
+  difficulty: state.difficulty.key,
+  score: state.run.score,
+  date,
+  durationSeconds: state.run.timeSeconds,
+  sizeTier: state.player.sizeTier,
+  apexKills: state.run.apexKills,
+  cause: state.run.endCause,
+  initials: '',
+});
+
+/** Higher score first; ties go to the earlier run, which got there first. */
+const compareEntries = (a: LeaderboardEntry, b: LeaderboardEntry) => b.score - a.score || a.date - b.date;
+
+export const leaderboardFor = (entries: LeaderboardEntry[], mode: PlayModeKey, difficulty: DifficultyKey) => (
+  entries.filter((e) => e.mode === mode && e.difficulty === difficulty).sort(compareEntries)
+);
+
+/** Sorts and drops everything below the top `LEADERBOARD_SIZE` of each mode and difficulty. */
+export const trimLeaderboard = (entries: LeaderboardEntry[]): LeaderboardEntry[] => {
+  const kept = new Map<string, number>();
+  return [...entries].sort(compareEntries).filter((e) => {
+    const key = `${e.mode}:${e.difficulty}`;
+    const count = kept.get(key) ?? 0;
+    kept.set(key, count + 1);
+    return count < LEADERBOARD_SIZE;
+  });
+};
+
+/** One-based position of `id` within its mode and difficulty, or null once it has been pushed off. */
+export const leaderboardRank = (entries: LeaderboardEntry[], id: string) => {
+  const entry = entries.find((e) => e.id === id);
+  if (!entry) return null;
+  return leaderboardFor(entries, entry.mode, entry.difficulty).indexOf(entry) + 1;
+};
+
+/** Uppercases and strips anything but letters and digits, keeping at most three characters. */
+export const sanitizeInitials = (value: string) => value.toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, INITIALS_LENGTH);
+
+const causeLabels: Record<RunEndCause, string> = {
+  prey: 'Prey',
+  predator: 'Predator',
+  apex: 'Apex',
+  hazard: 'Hazard',
+  pickup: 'Pickup',
+  jellyfish: 'Jellyfish',
+  mine: 'Mine',
+  urchin: 'Urchin',
+  net: 'Net',
+  time: 'Out of time',
+  rule: 'Rule broken',
+  cleared: 'Cleared',
+};
+
+export const describeRunEndCause = (cause: RunEndCause | null) => (cause ? causeLabels[cause] : '—');
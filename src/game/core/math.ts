@@ -7,8 +7,40 @@ export const normalize = (v: Vec2): Vec2 => {
   const l = len(v);
   return l > 0 ? { x: v.x / l, y: v.y / l } : { x: 0, y: 0 };
 };
+/** Shortens `v` to `max` when longer; shorter vectors keep their length, so analog input can swim slower. */
+export const clampLength = (v: Vec2, max: number): Vec2 => {
+  const l = len(v);
+  return l > max ? { x: (v.x / l) * max, y: (v.y / l) * max } : { ...v };
+};
 export const scale = (v: Vec2, s: number): Vec2 => ({ x: v.x * s, y: v.y * s });
 export const add = (a: Vec2, b: Vec2): Vec2 => ({ x: a.x + b.x, y: a.y + b.y });
 export const sub = (a: Vec2, b: Vec2): Vec2 => ({ x: a.x - b.x, y: a.y - b.y });
 export const dist = (a: Vec2, b: Vec2) => Math.hypot(a.x - b.x, a.y - b.y);
-export const rnd = (min: number, max: number) => min + Math.random() * (max - min);
+
+/** Anything that carries PRNG state; the engine passes the mutable per-tick `GameState`. */
+export type RngHolder = { rngState: number };
+
+export const randomSeed = () => Math.floor(Math.random() * 1e9);
+
+export const seedRng = (seed: number) => seed >>> 0;
+
+/** mulberry32: small, fast and good enough for gameplay. Advances `holder.rngState` in place. */
+export const nextRandom = (holder: RngHolder) => {
+  holder.rngState = (holder.rngState + 0x6d2b79f5) >>> 0;
+  let t = holder.rngState;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+export const rnd = (holder: RngHolder, min: number, max: number) => min + nextRandom(holder) * (max - min);
+
+/** FNV-1a over UTF-16 code units; stable across devices and JS engines. */
+export const hashString = (input: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i += 1) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+};
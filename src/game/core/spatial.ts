@@ -0,0 +1,97 @@
+import type { Entity, EntityKind, SpatialIndex, Vec2 } from './types';
+
+/** Roughly the widest NPC footprint, so most bodies touch at most four cells' worth of neighbors. */
+export const DEFAULT_CELL_SIZE = 96;
+
+// Packs signed cell coordinates into one number; good for ±32k cells on each axis.
+const KEY_OFFSET = 32768;
+const KEY_STRIDE = 65536;
+
+const cellCoord = (value: number, cellSize: number) => Math.floor(value / cellSize);
+const cellKey = (cx: number, cy: number) => (cx + KEY_OFFSET) * KEY_STRIDE + (cy + KEY_OFFSET);
+
+const emptyCounts = (): Record<EntityKind, number> => ({ prey: 0, predator: 0, apex: 0, hazard: 0, pickup: 0 });
+
+export const createSpatialIndex = (cellSize = DEFAULT_CELL_SIZE): SpatialIndex => ({
+  cellSize,
+  cells: new Map(),
+  counts: emptyCounts(),
+  maxRadius: 0,
+});
+
+/** Files the entity under the cell containing its center. Positions are not tracked afterwards. */
+export const insertEntity = (index: SpatialIndex, entity: Entity) => {
+  const key = cellKey(cellCoord(entity.pos.x, index.cellSize), cellCoord(entity.pos.y, index.cellSize));
+  const bucket = index.cells.get(key);
+  if (bucket) bucket.push(entity);
+  else index.cells.set(key, [entity]);
+  index.counts[entity.kind] += 1;
+  index.maxRadius = Math.max(index.maxRadius, entity.radius);
+};
+
+/** Removes by id from the cell the entity was filed under, i.e. before it moved. */
+export const removeEntity = (index: SpatialIndex, entity: Entity) => {
+  const key = cellKey(cellCoord(entity.pos.x, index.cellSize), cellCoord(entity.pos.y, index.cellSize));
+  const bucket = index.cells.get(key);
+  const at = bucket?.findIndex((e) => e.id === entity.id) ?? -1;
+  if (!bucket || at < 0) return;
+  bucket.splice(at, 1);
+  if (!bucket.length) index.cells.delete(key);
+  index.counts[entity.kind] -= 1;
+};
+
+export const buildSpatialIndex = (entities: Entity[], cellSize = DEFAULT_CELL_SIZE): SpatialIndex => {
+  const index = createSpatialIndex(cellSize);
+  for (const entity of entities) insertEntity(index, entity);
+  return index;
+};
+
+/**
+ * Entities whose centers lie within `radius` of `point`, in no particular order. Callers testing
+ * body overlap should pad `radius` by their own reach plus `index.maxRadius`.
+ */
+export const queryRadius = (
+  index: SpatialIndex,
+  point: Vec2,
+  radius: number,
+  filter?: (entity: Entity) => boolean,
+): Entity[] => {
+  const found: Entity[] = [];
+  const { cellSize } = index;
+  const minX = cellCoord(point.x - radius, cellSize);
+  const maxX = cellCoord(point.x + radius, cellSize);
+  const minY = cellCoord(point.y - radius, cellSize);
+  const maxY = cellCoord(point.y + radius, cellSize);
+  const r2 = radius * radius;
+  for (let cx = minX; cx <= maxX; cx += 1) {
+    for (let cy = minY; cy <= maxY; cy += 1) {
+      const bucket = index.cells.get(cellKey(cx, cy));
+      if (!bucket) continue;
+      for (const entity of bucket) {
+        const dx = entity.pos.x - point.x;
+        const dy = entity.pos.y - point.y;
+        if (dx * dx + dy * dy <= r2 && (!filter || filter(entity))) found.push(entity);
+      }
+    }
+  }
+  return found;
+};
+
+/** Closest entity within `radius` that passes `filter`, or null. Ties go to the lower id for determinism. */
+export const nearestEntity = (
+  index: SpatialIndex,
+  point: Vec2,
+  radius: number,
+  filter?: (entity: Entity) => boolean,
+): Entity | null => {
+  let best: Entity | null = null;
+  let bestDist = Infinity;
+  for (const entity of queryRadius(index, point, radius, filter)) {
+    const d = (entity.pos.x - point.x) ** 2 + (entity.pos.y - point.y) ** 2;
+    if (d < bestDist || (d === bestDist && best && entity.id < best.id)) {
+      best = entity;
+      bestDist = d;
+    }
+  }
+  return best;
+};
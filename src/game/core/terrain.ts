@@ -0,0 +1,156 @@
+import { rnd, seedRng } from './math';
+import type { Obstacle, ObstacleCircle, ObstacleKind, Vec2 } from './types';
+
+// Terrain draws from its own stream so the layout never shifts the spawn sequence.
+const TERRAIN_SEED_SALT = 0x27d4eb2f;
+/** Lines of sight only count as blocked well inside a circle, so grazing an edge still sees through. */
+const SIGHT_INSET = 0.85;
+const CAVE_GAP = 38;
+/** One rock pillar and one cave are laid out per this much arena width. */
+const TERRAIN_SEGMENT_WIDTH = 960;
+
+const boundsOf = (circles: ObstacleCircle[]): ObstacleCircle => {
+  const x = circles.reduce((sum, c) => sum + c.x, 0) / circles.length;
+  const y = circles.reduce((sum, c) => sum + c.y, 0) / circles.length;
+  const r = Math.max(...circles.map((c) => Math.hypot(c.x - x, c.y - y) + c.r));
+  return { x, y, r };
+};
+
+const obstacle = (id: number, kind: ObstacleKind, circles: ObstacleCircle[], extra: Pick<Obstacle, 'gap' | 'backdrop'> = {}): Obstacle => ({
+  id,
+  kind,
+  circles,
+  bounds: boundsOf(circles),
+  ...extra,
+});
+
+/**
+ * The two seabed corners match the `bg_fore_left`/`bg_fore_right` art; each screen-wide segment
+ * then gets a rock pillar and a cave with a narrow tunnel, placed from `seed`.
+ */
+export const generateTerrain = (seed: number, arena: { width: number; height: number }): Obstacle[] => {
+  const { width, height } = arena;
+  const rng = { rngState: seedRng(seed ^ TERRAIN_SEED_SALT) };
+  const segments: Obstacle[] = [];
+  for (let left = 0; left + TERRAIN_SEGMENT_WIDTH <= width; left += TERRAIN_SEGMENT_WIDTH) {
+    const id = segments.length + 3;
+    const pillarX = left + rnd(rng, 0.31, 0.44) * TERRAIN_SEGMENT_WIDTH;
+    const caveX = left + rnd(rng, 0.58, 0.72) * TERRAIN_SEGMENT_WIDTH;
+    const caveY = rnd(rng, height * 0.22, height * 0.62);
+    const caveRow = (y: number) => [-48, 0, 48].map((dx) => ({ x: caveX + dx, y, r: 32 }));
+    segments.push(
+      obstacle(id, 'rock', [
+        { x: pillarX, y: height - 30, r: 46 },
+        { x: pillarX + 6, y: height - 100, r: 38 },
+        { x: pillarX - 4, y: height - 160, r: 28 },
+      ]),
+      obstacle(id + 1, 'cave', [
+        ...caveRow(caveY - CAVE_GAP / 2 - 32),
+        ...caveRow(caveY + CAVE_GAP / 2 + 32),
+      ], { gap: { pos: { x: caveX, y: caveY }, width: CAVE_GAP } }),
+    );
+  }
+  return [
+    obstacle(1, 'coral', [
+      { x: 88, y: height - 48, r: 40 },
+      { x: 68, y: height - 120, r: 20 },
+      { x: 102, y: height - 104, r: 18 },
+      { x: 134, y: height - 54, r: 18 },
+    ], { backdrop: 'left' }),
+    obstacle(2, 'coral', [
+      { x: width - 80, y: height - 50, r: 32 },
+      { x: width - 55, y: height - 112, r: 20 },
+      { x: width - 76, y: height - 78, r: 20 },
+      { x: width - 98, y: height - 88, r: 14 },
+    ], { backdrop: 'right' }),
+    ...segments,
+  ];
+};
+
+/**
+ * Pushes a round body of `radius` out of every circle it overlaps and drops the velocity component
+ * pointing into the rock. Returns null when the body is clear. Two passes settle bodies wedged in a gap.
+ */
+export const collideWithTerrain = (terrain: Obstacle[], pos: Vec2, vel: Vec2, radius: number): { pos: Vec2; vel: Vec2 } | null => {
+  let px = pos.x;
+  let py = pos.y;
+  let vx = vel.x;
+  let vy = vel.y;
+  let hit = false;
+  for (let pass = 0; pass < 2; pass += 1) {
+    for (const o of terrain) {
+      if (Math.hypot(px - o.bounds.x, py - o.bounds.y) >= o.bounds.r + radius) continue;
+      for (const c of o.circles) {
+        const dx = px - c.x;
+        const dy = py - c.y;
+        const d = Math.hypot(dx, dy);
+        const min = c.r + radius;
+        if (d >= min) continue;
+        const nx = d > 0 ? dx / d : 0;
+        const ny = d > 0 ? dy / d : -1;
+        px = c.x + nx * min;
+        py = c.y + ny * min;
+        const inward = vx * nx + vy * ny;
+        if (inward < 0) {
+          vx -= nx * inward;
+          vy -= ny * inward;
+        }
+        hit = true;
+      }
+    }
+  }
+  return hit ? { pos: { x: px, y: py }, vel: { x: vx, y: vy } } : null;
+};
+
+/** Steering push away from rock ahead of a body moving along `vel`; zero when the way is clear. */
+export const terrainAvoidance = (terrain: Obstacle[], pos: Vec2, vel: Vec2, radius: number, lookahead: number): Vec2 => {
+  const speed = Math.hypot(vel.x, vel.y);
+  if (speed < 1) return { x: 0, y: 0 };
+  const probe = { x: pos.x + (vel.x / speed) * lookahead, y: pos.y + (vel.y / speed) * lookahead };
+  let x = 0;
+  let y = 0;
+  for (const o of terrain) {
+    if (Math.hypot(probe.x - o.bounds.x, probe.y - o.bounds.y) >= o.bounds.r + radius) continue;
+    for (const c of o.circles) {
+      const dx = probe.x - c.x;
+      const dy = probe.y - c.y;
+      const d = Math.hypot(dx, dy);
+      const clearance = c.r + radius;
+      if (d >= clearance || d === 0) continue;
+      const weight = (clearance - d) / clearance;
+      x += (dx / d) * weight;
+      y += (dy / d) * weight;
+    }
+  }
+  return { x, y };
+};
+
+/** True when rock sits between `a` and `b`, so neither can reach the other. */
+export const terrainBlocksLine = (terrain: Obstacle[], a: Vec2, b: Vec2) => {
+  const abx = b.x - a.x;
+  const aby = b.y - a.y;
+  const lenSq = abx * abx + aby * aby;
+  for (const o of terrain) {
+    for (const c of o.circles) {
+      const t = lenSq > 0 ? Math.max(0, Math.min(1, ((c.x - a.x) * abx + (c.y - a.y) * aby) / lenSq)) : 0;
+      const r = c.r * SIGHT_INSET;
+      if (Math.hypot(a.x + abx * t - c.x, a.y + aby * t - c.y) < r) return true;
+    }
+  }
+  return false;
+};
+
+/** Center of the nearest gap within `range` that a body of `radius` fits through. */
+export const nearestShelter = (terrain: Obstacle[], pos: Vec2, radius: number, range: number): Vec2 | null => {
+  let best: Vec2 | null = null;
+  let bestDist = range;
+  for (const o of terrain) {
+    if (!o.gap || radius * 2 >= o.gap.width) continue;
+    const d = Math.hypot(o.gap.pos.x - pos.x, o.gap.pos.y - pos.y);
+    if (d < bestDist) {
+      best = o.gap.pos;
+      bestDist = d;
+    }
+  }
+  return best;
+};
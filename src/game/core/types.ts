@@ -4,7 +4,9 @@ export type PlayModeKey = 'arcade' | 'campaign' | 'challenges';
 export type Vec2 = { x: number; y: number };
 export type FishSizeClass = 1 | 2 | 3 | 4 | 5;
 
-export type EntityKind = 'prey' | 'predator' | 'apex' | 'hazard';
+export type EntityKind = 'prey' | 'predator' | 'apex' | 'hazard' | 'pickup';
+export type PowerUpKind = 'speed' | 'shield' | 'magnet' | 'frenzy';
+export type HazardType = 'jellyfish' | 'mine' | 'urchin' | 'net';
 
 export type Entity = {
   id: number;
@@ -15,12 +17,50 @@ export type Entity = {
   vel: Vec2;
   radius: number;
   pointsOnEat?: number;
+  /** Set on pickups: the effect granted on collection. */
+  powerUp?: PowerUpKind;
+  /** Run time at which the entity leaves play (uncollected pickups, fuses, or set to now to despawn). */
+  expiresAt?: number;
+  /** Set on hazards: which member of the hazard family this is. */
+  hazardType?: HazardType;
+  /** Mines: run time after which contact detonates them. */
+  armedAt?: number;
+  /** Fish caught in a net stay put until this run time. */
+  trappedUntil?: number;
+  /** Run time of this fish's last NPC meal; it ignores food while digesting. */
+  fedAt?: number;
   combat?: {
     maxHealth: number;
     health: number;
     flashUntil: number;
     lastHitAt: number;
   };
+  /** Set on the one apex running a scripted boss encounter. */
+  boss?: BossState;
+};
+
+/** Boss phases step up as health falls below two thirds, then one third. */
+export type BossPhase = 1 | 2 | 3;
+
+export type BossAttackKind = 'lunge' | 'tail-sweep' | 'summon';
+
+export type BossAttack = {
+  kind: BossAttackKind;
+  /** 'windup' is the telegraph, 'active' is when it can hurt, 'recover' leaves an opening. */
+  stage: 'windup' | 'active' | 'recover';
+  /** Run time the current stage ends. */
+  until: number;
+  /** Locked at wind-up: lunge direction, or the way the boss faces for a sweep. */
+  dir: Vec2;
+};
+
+export type BossState = {
+  phase: BossPhase;
+  /** Run time the encounter began; the enrage timer counts from here. */
+  startedAt: number;
+  enraged: boolean;
+  attack: BossAttack | null;
+  nextAttackAt: number;
 };
 
 export type DifficultyProfile = {
@@ -36,14 +76,24 @@ export type DifficultyProfile = {
   predatorSpawnPerSecond: number;
   apexSpawnPerSecond: number;
   hazardSpawnPerSecond: number;
+  pickupSpawnPerSecond: number;
   maxPrey: number;
   maxPredators: number;
   maxApex: number;
   maxHazards: number;
+  maxPickups: number;
+  /** Seconds an uncollected pickup stays in the arena. */
+  pickupLifetimeSeconds: number;
+  /** Relative odds of each power-up when a pickup spawns. */
+  powerUpWeights: Record<PowerUpKind, number>;
+  /** Effect duration in seconds; a shield also ends early when it absorbs a hit. */
+  powerUpSeconds: Record<PowerUpKind, number>;
   predatorAggression: number;
   apexAggression: number;
   apexMaxHealth: number;
   apexTailHitLeniency: number;
+  /** Scales every current's peak speed; 0 leaves the water still. */
+  currentStrength: number;
   reactionSmoothing: number;
   graceSecondsAfterRespawn: number;
   extraLifeScoreStep: number;
@@ -51,12 +101,26 @@ export type DifficultyProfile = {
 
 export type DifficultySet = Record<DifficultyKey, DifficultyProfile>;
 
+export type KeyAction = 'up' | 'down' | 'left' | 'right' | 'pause' | 'start';
+
+/** Lowercased `KeyboardEvent.key` values per action, primary first. */
+export type KeyBindings = Record<KeyAction, string[]>;
+
+export type KeyBindingPreset = 'qwerty' | 'azerty' | 'leftHanded';
+
 export type GameSettings = {
   soundEnabled: boolean;
   musicEnabled: boolean;
   hapticsEnabled: boolean;
   reducedMotion: boolean;
   controlMode: 'joystick' | 'drag';
+  keyBindings: KeyBindings;
+  /** Fraction of stick travel ignored as drift. */
+  gamepadDeadzone: number;
+  /** Stick response exponent: 1 is linear, higher is finer near the centre. */
+  gamepadResponseCurve: number;
+  /** Anonymous gameplay analytics; off means nothing is recorded or stored. */
+  telemetryEnabled: boolean;
 };
 
 export type Stats = {
@@ -65,6 +129,9 @@ export type Stats = {
   totalPlaySeconds: number;
   totalPreyEaten: number;
   bestSizeTier: number;
+  totalApexHits: number;
+  totalApexKills: number;
+  bossesDefeated: number;
 };
 
 export type MetaProgress = {
@@ -78,10 +145,51 @@ export type CampaignProgress = {
   starsByStage: Record<string, number>;
 };
 
+export type AchievementProgress = {
+  /** Epoch milliseconds at which each achievement id was unlocked. */
+  unlockedAt: Record<string, number>;
+};
+
 export type ChallengeProgress = {
   completedIds: string[];
   bestById: Record<string, number>;
   dailyStreak: number;
+  /** Date key (YYYY-MM-DD) of the last scored daily attempt. */
+  dailyLastDate: string | null;
+  dailyLastScore: number;
+  dailyBestScore: number;
+};
+
+/** Compact recording of a run: starting seed and difficulty plus run-length encoded per-frame input. */
+export type ReplayData = {
+  version: number;
+  seed: number;
+  difficulty: DifficultyKey;
+  frameCount: number;
+  finalScore: number;
+  frames: string;
+  stageId?: string;
+  challengeId?: string;
+  dailyDate?: string;
+};
+
+/** One finished run on the local leaderboard; see `leaderboard.ts`. */
+export type LeaderboardEntry = {
+  /** Unique on this device; lets the game-over screen attach initials to the run just recorded. */
+  id: string;
+  mode: PlayModeKey;
+  difficulty: DifficultyKey;
+  score: number;
+  /** Epoch milliseconds when the run ended. */
+  date: number;
+  durationSeconds: number;
+  sizeTier: number;
+  apexKills: number;
+  cause: RunEndCause | null;
+  /** Up to three letters or digits; empty until the player signs the entry. */
+  initials: string;
+  /** Seeded from a high score saved before the leaderboard existed, so only the score is known. */
+  legacy?: boolean;
 };
 
 export type SaveData = {
@@ -90,12 +198,161 @@ export type SaveData = {
   selectedDifficulty: DifficultyKey;
   settings: GameSettings;
   highScores: Record<DifficultyKey, number>;
+  highScoreReplays: Partial<Record<DifficultyKey, ReplayData>>;
   stats: Stats;
   meta: MetaProgress;
   campaign: CampaignProgress;
   challenges: ChallengeProgress;
+  achievements: AchievementProgress;
+  /** Best runs, trimmed to `LEADERBOARD_SIZE` per mode and difficulty. */
+  leaderboard: LeaderboardEntry[];
+};
+
+export type StageObjective =
+  | { type: 'reach-size'; sizeTier: number }
+  | { type: 'survive'; seconds: number }
+  | { type: 'kill-apex'; count: number };
+
+export type StarRule = {
+  metric: 'score' | 'timeSeconds' | 'livesRemaining';
+  /** Values for the second and third star; clearing the objective always earns the first. Lower is better for time. */
+  thresholds: [number, number];
+};
+
+export type ScenarioSetup = {
+  /** Applied on top of the selected difficulty, e.g. spawn rates, caps and starting lives. */
+  difficultyOverrides?: Partial<Omit<DifficultyProfile, 'key' | 'label'>>;
+  /** Run time in seconds at which each kind starts spawning; replaces the arcade unlock thresholds. */
+  unlockAtSeconds?: Partial<Record<EntityKind, number>>;
+  startingSizeTier?: number;
+  /** Player start as a fraction of the arena size. */
+  playerStart?: Vec2;
+  initialSpawns?: Partial<Record<EntityKind, number>>;
+  /** Running out of time fails the run. */
+  timeLimitSeconds?: number;
+  /** Score still accrues but the player never changes size tier. */
+  growthLocked?: boolean;
+  /** False turns off score-based extra lives; the run keeps the lives it starts with. */
+  extraLives?: boolean;
+  /** Run time at which a boss apex arrives; bosses otherwise only come from arcade milestones. */
+  bossAtSeconds?: number;
 };
 
+export type StageDefinition = {
+  id: string;
+  /** 1-based order; matches `CampaignProgress.unlockedStage`. */
+  index: number;
+  name: string;
+  description: string;
+  objective: StageObjective;
+  stars: StarRule;
+  setup: ScenarioSetup;
+};
+
+export type StageRunState = {
+  definition: StageDefinition;
+  status: 'active' | 'complete' | 'failed';
+  stars: number;
+};
+
+/** Counters accumulated from the `GameEvent` stream of a challenge run. */
+export type ChallengeTally = {
+  eaten: number;
+  growths: number;
+  hitsTaken: number;
+  apexHits: number;
+  apexKills: number;
+};
+
+export type ChallengeDefinition = {
+  id: string;
+  name: string;
+  description: string;
+  /** Forces a difficulty regardless of the menu selection. */
+  difficulty?: DifficultyKey;
+  setup: ScenarioSetup;
+  succeeded: (tally: ChallengeTally, state: GameState) => boolean;
+  /** Checked after `succeeded`; a true result ends the run as a failure. */
+  failed?: (tally: ChallengeTally, state: GameState) => boolean;
+  progress: (tally: ChallengeTally, state: GameState) => { current: number; target: number };
+  metric: {
+    label: string;
+    unit: 's' | 'pts' | '';
+    higherIsBetter: boolean;
+    value: (tally: ChallengeTally, state: GameState) => number;
+  };
+};
+
+/** Per-run facts gathered from the `GameEvent` stream; see `achievements.ts`. */
+export type AchievementTally = {
+  difficulty: DifficultyKey;
+  timeSeconds: number;
+  score: number;
+  /** Prey and predators eaten, matching `RunProgress.preyEaten`. */
+  eaten: number;
+  hitsTaken: number;
+  apexHits: number;
+  apexKills: number;
+  bossesDefeated: number;
+  bestCombo: number;
+  netsTorn: number;
+  sizeTier: number;
+  /** Run time in seconds at which each size tier was first reached. */
+  tierReachedAt: Record<number, number>;
+  /** Set by a `stage-complete` or `challenge-complete` event. */
+  cleared: boolean;
+};
+
+export type AchievementDefinition = {
+  id: string;
+  name: string;
+  description: string;
+  /** Judged after every batch of events; `stats` are lifetime totals from before the current run. */
+  unlocked: (tally: AchievementTally, stats: Stats) => boolean;
+  /** Shown in the panel for cumulative goals while still locked. */
+  progress?: (tally: AchievementTally, stats: Stats) => { current: number; target: number };
+};
+
+/** One frame of a recorded run: the events it raised and the run time they happened at. */
+export type RecordedEventBatch = { timeSeconds: number; events: GameEvent[] };
+
+export type ChallengeRunState = {
+  definition: ChallengeDefinition;
+  status: 'active' | 'complete' | 'failed';
+  tally: ChallengeTally;
+  /** Metric value recorded when the challenge was completed. */
+  result: number;
+};
+
+export type DailyModifier = {
+  id: string;
+  label: string;
+  /** Modifiers sharing a group are never rolled together. */
+  group?: string;
+  setup: ScenarioSetup;
+};
+
+export type DailyDefinition = {
+  /** Local calendar date, YYYY-MM-DD. */
+  dateKey: string;
+  seed: number;
+  difficulty: DifficultyKey;
+  modifiers: DailyModifier[];
+  setup: ScenarioSetup;
+};
+
+/** `rule` covers challenge-specific failures such as eating in a no-eating challenge. */
+export type RunFailReason = 'lives' | 'time' | 'rule';
+
+/** Why a run ended: whatever took the last life, a scenario's clock or rule, or a cleared objective. */
+export type RunEndCause = EntityKind | HazardType | Exclude<RunFailReason, 'lives'> | 'cleared';
+
+/** Authored content a run can be started with; arcade runs have none. */
+export type RunScenario =
+  | { type: 'stage'; stage: StageDefinition }
+  | { type: 'challenge'; challenge: ChallengeDefinition }
+  | { type: 'daily'; daily: DailyDefinition };
+
 export type GameModeState = 'title' | 'playing' | 'paused' | 'gameOver';
 
 export type PlayerState = {
@@ -105,6 +362,12 @@ export type PlayerState = {
   sizeTier: number;
   lives: number;
   invulnerableUntil: number;
+  /** No steering until this run time (jellyfish sting, net). */
+  stunnedUntil: number;
+  /** Reduced speed until this run time. */
+  slowedUntil: number;
+  /** Active power-ups keyed by kind, valued by the run time they expire at. */
+  powerUps: Partial<Record<PowerUpKind, number>>;
 };
 
 export type RunProgress = {
@@ -115,16 +378,71 @@ export type RunProgress = {
   nextGrowthScore: number;
   nextExtraLifeScore: number;
   milestone: number;
+  apexKills: number;
+  apexHits: number;
+  /** Fish eaten in the current chain; each eat must land before `comboExpiresAt`. */
+  comboCount: number;
+  comboExpiresAt: number;
+  bestCombo: number;
+  /** Score milestone (thousands) that summons the next arcade boss. */
+  nextBossMilestone: number;
+  bossesSpawned: number;
+  bossesDefeated: number;
+  /** Null while the run is still going. */
+  endCause: RunEndCause | null;
+};
+
+export type ViewRect = { x: number; y: number; width: number; height: number };
+
+/** A region of moving water; strengths are peak px/s and pulse over `periodSeconds`. See `currents.ts`. */
+export type CurrentZone =
+  | { kind: 'band'; y: number; halfHeight: number; direction: 1 | -1; strength: number; periodSeconds: number; phase: number }
+  | { kind: 'vortex'; center: Vec2; radius: number; spin: 1 | -1; strength: number; periodSeconds: number; phase: number };
+
+export type ObstacleKind = 'rock' | 'coral' | 'cave';
+
+export type ObstacleCircle = { x: number; y: number; r: number };
+
+/** Solid scenery built from overlapping circles; see `terrain.ts`. */
+export type Obstacle = {
+  id: number;
+  kind: ObstacleKind;
+  circles: ObstacleCircle[];
+  /** Encloses every circle, for cheap rejection. */
+  bounds: ObstacleCircle;
+  /** A passage through the obstacle; only bodies narrower than `width` fit. */
+  gap?: { pos: Vec2; width: number };
+  /** Already depicted by the matching `bg_fore_*` art layer, so it gets no sprites of its own. */
+  backdrop?: 'left' | 'right';
+};
+
+/** Uniform-grid broadphase over `GameState.entities`, keyed by cell; see `spatial.ts`. */
+export type SpatialIndex = {
+  cellSize: number;
+  cells: Map<number, Entity[]>;
+  counts: Record<EntityKind, number>;
+  /** Largest entity radius in the index, so queries can pad for bodies overlapping a cell edge. */
+  maxRadius: number;
 };
 
 export type GameState = {
   seed: number;
+  /** Current PRNG state derived from `seed`; all simulation randomness draws from this. */
+  rngState: number;
   elapsedMs: number;
   mode: GameModeState;
   arena: { width: number; height: number };
+  /** The window of the arena on screen, in arena coordinates; spawning and culling work relative to it. */
+  view: ViewRect;
   difficulty: DifficultyProfile;
   player: PlayerState;
   entities: Entity[];
+  /** Rebuilt every tick from `entities`; use it for neighbor queries instead of scanning the list. */
+  spatial: SpatialIndex;
+  /** Fixed for the run, laid out from `seed`. */
+  currents: CurrentZone[];
+  /** Static for the run, laid out from `seed`. */
+  terrain: Obstacle[];
   run: RunProgress;
   nextEntityId: number;
   spawnTimers: Record<EntityKind, number>;
@@ -135,6 +453,10 @@ export type GameState = {
     lastKillAt: number;
   };
   pendingEvents: GameEvent[];
+  /** Campaign stage being played; null in arcade. */
+  stage: StageRunState | null;
+  challenge: ChallengeRunState | null;
+  daily: DailyDefinition | null;
 };
 
 export type InputState = {
@@ -145,11 +467,31 @@ export type InputState = {
 export type GameEvent =
   | { type: 'score'; amount: number }
   | { type: 'eat'; kind: EntityKind; sizeClass?: FishSizeClass }
-  | { type: 'player-hit'; livesRemaining: number }
+  | { type: 'player-hit'; livesRemaining: number; cause: EntityKind; hazard?: HazardType }
+  | { type: 'player-stunned'; cause: HazardType; until: number }
+  | { type: 'mine-exploded'; entityId: number; pos: Vec2; radius: number; npcKills: number }
+  | { type: 'fish-trapped'; entityId: number; pos: Vec2 }
+  | { type: 'net-torn'; entityId: number; pos: Vec2 }
   | { type: 'extra-life'; lives: number }
   | { type: 'growth'; sizeTier: number }
   | { type: 'game-over'; finalScore: number }
   | { type: 'milestone'; value: number }
   | { type: 'apex-hit'; entityId: number; damage: number; health: number; maxHealth: number; points: number; pos: Vec2 }
   | { type: 'apex-killed'; entityId: number; points: number; pos: Vec2 }
-  | { type: 'apex-intensity'; value: number };
+  | { type: 'boss-spawned'; entityId: number; maxHealth: number }
+  | { type: 'boss-phase'; entityId: number; phase: BossPhase }
+  | { type: 'boss-telegraph'; entityId: number; attack: BossAttackKind; until: number }
+  | { type: 'boss-tail-sweep'; entityId: number; pos: Vec2; radius: number }
+  | { type: 'boss-summon'; entityId: number; count: number; pos: Vec2 }
+  | { type: 'boss-enraged'; entityId: number }
+  | { type: 'boss-defeated'; entityId: number; points: number; pos: Vec2; durationSeconds: number }
+  | { type: 'combo'; count: number; multiplier: number; bonus: number; pos: Vec2 }
+  | { type: 'combo-break'; count: number; reason: 'timeout' | 'hit' }
+  | { type: 'power-up'; powerUp: PowerUpKind; expiresAt: number; pos: Vec2 }
+  | { type: 'power-up-expired'; powerUp: PowerUpKind; reason: 'timeout' | 'used' }
+  | { type: 'npc-eat'; predatorId: number; predatorKind: EntityKind; preyId: number; preySizeClass: FishSizeClass; pos: Vec2 }
+  | { type: 'apex-intensity'; value: number }
+  | { type: 'stage-complete'; stageId: string; stars: number; score: number }
+  | { type: 'stage-failed'; stageId: string; reason: RunFailReason }
+  | { type: 'challenge-complete'; challengeId: string; result: number }
+  | { type: 'challenge-failed'; challengeId: string; reason: RunFailReason };
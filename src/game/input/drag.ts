@@ -0,0 +1,72 @@
+import type { Vec2, ViewRect } from '../core/types';
+
+export type DragSnapshot = {
+  active: boolean;
+  /** Finger position in client px, where the target marker is drawn. */
+  point: Vec2;
+  /** The fish is close enough that it has stopped steering. */
+  arrived: boolean;
+};
+
+type ScreenRect = Pick<DOMRect, 'left' | 'top' | 'width' | 'height'>;
+
+/** World distance over which the fish eases off as it reaches the finger. */
+const ARRIVAL_RADIUS = 90;
+/** Inside this the fish stops steering, so it settles instead of twitching under the finger. */
+const STOP_RADIUS = 8;
+
+/** Touches on buttons, inputs and the menu are UI taps, not steering. */
+const isUiTarget = (target: EventTarget | null) => (
+  target instanceof Element && !!target.closest('button, input, select, textarea, a, label, .menu-overlay')
+);
+
+/** Maps a client-px point onto the world through the canvas box and the camera's view rect. */
+export const screenToWorld = (point: Vec2, canvas: ScreenRect, view: ViewRect): Vec2 => ({
+  x: view.x + ((point.x - canvas.left) / canvas.width) * view.width,
+  y: view.y + ((point.y - canvas.top) / canvas.height) * view.height,
+});
+
+/**
+ * Absolute touch input: the fish swims toward the point under the finger. The finger is tracked in
+ * screen space and mapped into the world every frame, so holding still while the camera scrolls keeps
+ * steering toward whatever is under it now.
+ */
+export class DragSteering {
+  private pointerId: number | null = null;
+  private point: Vec2 = { x: 0, y: 0 };
+  private arrived = false;
+
+  onPointerDown = (e: PointerEvent) => {
+    if (this.pointerId !== null || isUiTarget(e.target)) return;
+    this.pointerId = e.pointerId;
+    this.point = { x: e.clientX, y: e.clientY };
+    this.arrived = false;
+  };
+
+  onPointerMove = (e: PointerEvent) => {
+    if (this.pointerId !== e.pointerId) return;
+    this.point = { x: e.clientX, y: e.clientY };
+  };
+
+  onPointerUp = (e: PointerEvent) => {
+    if (this.pointerId !== e.pointerId) return;
+    this.pointerId = null;
+  };
+
+  /** Steering toward the finger, full strength far away and easing to zero on arrival. */
+  getMovement(player: Vec2, canvas: ScreenRect | null, view: ViewRect): Vec2 {
+    if (this.pointerId === null || !canvas || !canvas.width || !canvas.height) return { x: 0, y: 0 };
+    const target = screenToWorld(this.point, canvas, view);
+    const dx = target.x - player.x;
+    const dy = target.y - player.y;
+    const distance = Math.hypot(dx, dy);
+    this.arrived = distance <= STOP_RADIUS;
+    if (this.arrived) return { x: 0, y: 0 };
+    const t = Math.min(1, distance / ARRIVAL_RADIUS);
+    return { x: (dx / distance) * t, y: (dy / distance) * t };
+  }
+
+  snapshot(): DragSnapshot {
+    return { active: this.pointerId !== null, point: { ...this.point }, arrived: this.arrived };
+  }
+}
@@ -0,0 +1,121 @@
+import { defaultSettings } from '../core/config';
+import type { Vec2 } from '../core/types';
+
+export type GamepadAction = 'start' | 'restart' | 'pause' | 'menu';
+
+/** Button indices in the browser's "standard" layout (A/Cross is 0, Start/Options is 9). */
+const actionButtons: Record<GamepadAction, number[]> = {
+  start: [0],
+  restart: [0, 3],
+  pause: [9],
+  menu: [8],
+};
+
+const DPAD = { up: 12, down: 13, left: 14, right: 15 };
+
+export type GamepadOptions = {
+  /** Stick deflection, as a fraction of full travel, that is ignored as drift. */
+  deadzone: number;
+  /** Exponent applied past the deadzone: 1 is linear, higher gives finer control near the centre. */
+  responseCurve: number;
+};
+
+export const MAX_DEADZONE = 0.5;
+
+/**
+ * Radial deadzone, rescaled so steering starts from zero at its edge rather than jumping, then shaped
+ * by the response curve.
+ */
+export const shapeStick = (x: number, y: number, { deadzone, responseCurve }: GamepadOptions): Vec2 => {
+  const mag = Math.hypot(x, y);
+  if (mag <= deadzone) return { x: 0, y: 0 };
+  const t = ((Math.min(1, mag) - deadzone) / (1 - deadzone)) ** responseCurve;
+  return { x: (x / mag) * t, y: (y / mag) * t };
+};
+
+/**
+ * Gamepad API input. The browser only exposes pads after a button press, and their state has to be
+ * polled, so `poll` runs once per frame before anything is read. Pads may come and go at any time;
+ * every connected pad contributes, so whichever one is picked up just works.
+ */
+export class GamepadInput {
+  private options: GamepadOptions = {
+    deadzone: defaultSettings.gamepadDeadzone,
+    responseCurve: defaultSettings.gamepadResponseCurve,
+  };
+  private movement: Vec2 = { x: 0, y: 0 };
+  private held = new Set<GamepadAction>();
+  /** Actions whose button went down since the previous poll. */
+  private pressed = new Set<GamepadAction>();
+  private connected = new Map<number, string>();
+
+  constructor(
+    private readonly onConnectionChange?: (name: string, connected: boolean) => void,
+    target: Window = window,
+  ) {
+    target.addEventListener('gamepadconnected', this.onConnected);
+    target.addEventListener('gamepaddisconnected', this.onDisconnected);
+  }
+
+  destroy(target: Window = window) {
+    target.removeEventListener('gamepadconnected', this.onConnected);
+    target.removeEventListener('gamepaddisconnected', this.onDisconnected);
+  }
+
+  setOptions(options: GamepadOptions) {
+    this.options = {
+      deadzone: Math.min(MAX_DEADZONE, Math.max(0, options.deadzone)),
+      responseCurve: Math.max(0.5, options.responseCurve),
+    };
+  }
+
+  /** Names of the pads currently plugged in. */
+  connectedPads() {
+    return [...this.connected.values()];
+  }
+
+  private onConnected = (e: GamepadEvent) => {
+    this.connected.set(e.gamepad.index, e.gamepad.id);
+    this.onConnectionChange?.(e.gamepad.id, true);
+  };
+
+  private onDisconnected = (e: GamepadEvent) => {
+    this.connected.delete(e.gamepad.index);
+    // Buttons held on an unplugged pad must not stay held.
+    this.poll();
+    this.onConnectionChange?.(e.gamepad.id, false);
+  };
+
+  poll() {
+    const pads = typeof navigator.getGamepads === 'function' ? navigator.getGamepads() : [];
+    let x = 0;
+    let y = 0;
+    const held = new Set<GamepadAction>();
+    for (const pad of pads) {
+      if (!pad?.connected) continue;
+      const stick = shapeStick(pad.axes[0] ?? 0, pad.axes[1] ?? 0, this.options);
+      const down = (index: number) => pad.buttons[index]?.pressed ?? false;
+      x += stick.x + (down(DPAD.right) ? 1 : 0) - (down(DPAD.left) ? 1 : 0);
+      y += stick.y + (down(DPAD.down) ? 1 : 0) - (down(DPAD.up) ? 1 : 0);
+      for (const [action, buttons] of Object.entries(actionButtons) as [GamepadAction, number[]][]) {
+        if (buttons.some(down)) held.add(action);
+      }
+    }
+    // Presses only count until the next poll, so one made mid-run cannot fire later on the title or
+    // game-over screen, and a button still held when the run ends does not restart it.
+    this.pressed = new Set([...held].filter((action) => !this.held.has(action)));
+    this.held = held;
+    this.movement = { x, y };
+  }
+
+  readMovement(): Vec2 {
+    return { ...this.movement };
+  }
+
+  /** Edge-triggered: true once per press, until consumed or the next poll. */
+  consumePressed(action: GamepadAction) {
+    const v = this.pressed.has(action);
+    this.pressed.delete(action);
+    return v;
+  }
+}
@@ -1,8 +1,17 @@
-import type { Vec2 } from '../core/types';
+import { defaultKeyBindings } from '../core/bindings';
+import type { KeyAction, KeyBindings, Vec2 } from '../core/types';
+
+/** Keys typed into a text field (replay codes, leaderboard initials) are text, not game input. */
+const isTextEntry = (target: EventTarget | null) => (
+  target instanceof HTMLElement && (target.isContentEditable || target.tagName === 'INPUT' || target.tagName === 'TEXTAREA')
+);
 
 export class KeyboardInput {
   private pressed = new Set<string>();
   private pauseQueued = false;
+  private bindings: KeyBindings = defaultKeyBindings;
+  /** While set, the next key press goes here instead of to the game (rebinding in the menu). */
+  private captureKey: ((key: string) => void) | null = null;
 
   constructor(target: Window = window) {
     target.addEventListener('keydown', this.onKeyDown);
@@ -14,13 +23,37 @@ export class KeyboardInput {
     target.removeEventListener('keyup', this.onKeyUp);
   }
 
+  setBindings(bindings: KeyBindings) {
+    this.bindings = bindings;
+    this.pressed.clear();
+  }
+
+  /** Hands the next key press to `onKey` instead of the game; null cancels a pending capture. */
+  captureNextKey(onKey: ((key: string) => void) | null) {
+    this.captureKey = onKey;
+  }
+
+  private isBound(key: string) {
+    return Object.values(this.bindings).some((keys) => keys.includes(key));
+  }
+
+  private held(action: KeyAction) {
+    return this.bindings[action].some((key) => this.pressed.has(key));
+  }
+
   private onKeyDown = (e: KeyboardEvent) => {
+    if (isTextEntry(e.target)) return;
     const key = e.key.toLowerCase();
-    if (['arrowup', 'arrowdown', 'arrowleft', 'arrowright', 'w', 'a', 's', 'd', ' ', 'escape', 'p', 'enter'].includes(key)) {
+    if (this.captureKey) {
       e.preventDefault();
+      const capture = this.captureKey;
+      this.captureKey = null;
+      capture(key);
+      return;
     }
+    if (this.isBound(key)) e.preventDefault();
     this.pressed.add(key);
-    if (key === 'p' || key === 'escape') this.pauseQueued = true;
+    if (this.bindings.pause.includes(key)) this.pauseQueued = true;
   };
 
   private onKeyUp = (e: KeyboardEvent) => {
@@ -28,10 +61,10 @@ export class KeyboardInput {
   };
 
   readMovement(): Vec2 {
-    const left = this.pressed.has('arrowleft') || this.pressed.has('a') ? -1 : 0;
-    const right = this.pressed.has('arrowright') || this.pressed.has('d') ? 1 : 0;
-    const up = this.pressed.has('arrowup') || this.pressed.has('w') ? -1 : 0;
-    const down = this.pressed.has('arrowdown') || this.pressed.has('s') ? 1 : 0;
+    const left = this.held('left') ? -1 : 0;
+    const right = this.held('right') ? 1 : 0;
+    const up = this.held('up') ? -1 : 0;
+    const down = this.held('down') ? 1 : 0;
     return { x: left + right, y: up + down };
   }
 
@@ -42,6 +75,6 @@ export class KeyboardInput {
   }
 
   consumeStartPressed() {
-    return this.pressed.has('enter') || this.pressed.has(' ');
+    return this.held('start');
   }
 }
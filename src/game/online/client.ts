@@ -0,0 +1,185 @@
+import type { OnlineBoardKey, OnlineEntry, RunSubmission, SubmitResult } from './protocol';
+
+/** Backend-agnostic leaderboard access; the game only talks to this, never to `fetch` directly. */
+export interface LeaderboardService {
+  submit(submission: RunSubmission): Promise<SubmitResult>;
+  top(board: OnlineBoardKey, limit: number): Promise<OnlineEntry[]>;
+  /** The player's own entry with up to `span` neighbours either side; empty when they have none. */
+  around(board: OnlineBoardKey, publicId: string, span: number): Promise<OnlineEntry[]>;
+  /** Renames the player's entry on `board`; null when they have none there yet. */
+  setInitials(board: OnlineBoardKey, playerSecret: string, initials: string): Promise<OnlineEntry | null>;
+}
+
+/** `retryable` failures (network errors, 5xx, 429) are worth repeating or queueing; the rest are final. */
+export class LeaderboardError extends Error {
+  constructor(message: string, readonly retryable: boolean) {
+    super(message);
+    this.name = 'LeaderboardError';
+  }
+}
+
+export type RetryOptions = {
+  attempts: number;
+  /** Delay before the first retry; each later retry waits twice as long. */
+  baseDelayMs: number;
+};
+
+export const defaultRetryOptions: RetryOptions = { attempts: 3, baseDelayMs: 400 };
+
+const wait = (ms: number) => new Promise<void>((resolve) => { setTimeout(resolve, ms); });
+
+export const withRetry = async <T>(task: () => Promise<T>, options: RetryOptions = defaultRetryOptions): Promise<T> => {
+  for (let attempt = 1; ; attempt += 1) {
+    try {
+      return await task();
+    } catch (error) {
+      const retryable = !(error instanceof LeaderboardError) || error.retryable;
+      if (!retryable || attempt >= options.attempts) throw error;
+      await wait(options.baseDelayMs * 2 ** (attempt - 1));
+    }
+  }
+};
+
+/** Talks to the reference server's JSON API; see `scripts/leaderboard-server.ts` for the routes. */
+export class HttpLeaderboardService implements LeaderboardService {
+  constructor(
+    private readonly baseUrl: string,
+    private readonly retry: RetryOptions = defaultRetryOptions,
+    private readonly fetchImpl: typeof fetch = (...args) => fetch(...args),
+  ) {}
+
+  private async request<T>(path: string, init?: RequestInit): Promise<T> {
+    return withRetry(async () => {
+      let response: Response;
+      try {
+        response = await this.fetchImpl(`${this.baseUrl.replace(/\/$/, '')}${path}`, {
+          ...init,
+          headers: { 'content-type': 'application/json', ...init?.headers },
+        });
+      } catch {
+        throw new LeaderboardError('Leaderboard server unreachable', true);
+      }
+      // A rejected submission is a normal answer with a body, not a failure.
+      if (response.ok || response.status === 422) return await response.json() as T;
+      throw new LeaderboardError(`Leaderboard request failed (${response.status})`, response.status >= 500 || response.status === 429);
+    }, this.retry);
+  }
+
+  submit(submission: RunSubmission) {
+    return this.request<SubmitResult>('/v1/runs', { method: 'POST', body: JSON.stringify(submission) });
+  }
+
+  async top(board: OnlineBoardKey, limit: number) {
+    const { entries } = await this.request<{ entries: OnlineEntry[] }>(`/v1/boards/${encodeURIComponent(board)}/top?limit=${limit}`);
+    return entries;
+  }
+
+  async around(board: OnlineBoardKey, publicId: string, span: number) {
+    const query = `publicId=${encodeURIComponent(publicId)}&span=${span}`;
+    const { entries } = await this.request<{ entries: OnlineEntry[] }>(`/v1/boards/${encodeURIComponent(board)}/around?${query}`);
+    return entries;
+  }
+
+  async setInitials(board: OnlineBoardKey, playerSecret: string, initials: string) {
+    const { entry } = await this.request<{ entry: OnlineEntry | null }>(`/v1/boards/${encodeURIComponent(board)}/initials`, {
+      method: 'POST',
+      body: JSON.stringify({ playerSecret, initials }),
+    });
+    return entry;
+  }
+}
+
+type QueueStorage = Pick<Storage, 'getItem' | 'setItem'>;
+
+const QUEUE_KEY = 'reef-rush-online-queue';
+/** Oldest submissions are dropped past this, so a long offline spell cannot fill storage. */
+const MAX_QUEUED = 20;
+
+/** Submissions that could not be delivered, kept in storage until a later `flush` gets them through. */
+export class OfflineSubmissionQueue {
+  constructor(private readonly storage: QueueStorage) {}
+
+  pending(): RunSubmission[] {
+    try {
+      const parsed: unknown = JSON.parse(this.storage.getItem(QUEUE_KEY) ?? '[]');
+      return Array.isArray(parsed) ? parsed as RunSubmission[] : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private write(queue: RunSubmission[]) {
+    try {
+      this.storage.setItem(QUEUE_KEY, JSON.stringify(queue.slice(-MAX_QUEUED)));
+    } catch {
+      // Storage full or unavailable; the queued runs are lost with this session.
+    }
+  }
+
+  enqueue(submission: RunSubmission) {
+    this.write([...this.pending(), submission]);
+  }
+
+  /** Initials signed while a run waits here; the server keeps one name per player, so all their runs take it. */
+  setInitials(playerSecret: string, initials: string) {
+    this.write(this.pending().map((s) => (s.playerSecret === playerSecret ? { ...s, initials } : s)));
+  }
+
+  /**
+   * Sends queued runs in order and stops at the first one that still cannot be delivered. Runs the
+   * server has answered, whether accepted or rejected, leave the queue.
+   */
+  async flush(service: LeaderboardService): Promise<SubmitResult[]> {
+    const results: SubmitResult[] = [];
+    let queue = this.pending();
+    while (queue.length) {
+      try {
+        results.push(await service.submit(queue[0]));
+      } catch (error) {
+        // A final error means the server will never take this run, so it is dropped like a rejection.
+        if (!(error instanceof LeaderboardError) || error.retryable) break;
+      }
+      queue = queue.slice(1);
+    }
+    this.write(queue);
+    return results;
+  }
+}
+
+/** Submits now, or queues the run for later when the server cannot be reached; null means queued. */
+export const submitOrQueue = async (
+  service: LeaderboardService,
+  queue: OfflineSubmissionQueue,
+  submission: RunSubmission,
+): Promise<SubmitResult | null> => {
+  try {
+    return await service.submit(submission);
+  } catch (error) {
+    if (error instanceof LeaderboardError && !error.retryable) throw error;
+    queue.enqueue(submission);
+    return null;
+  }
+};
+
+// Not the old 'reef-rush-player-id': those ids were published on every board, so they cannot be secrets.
+const PLAYER_SECRET_KEY = 'reef-rush-player-secret';
+
+/**
+ * Anonymous secret that ties this device's runs together on the server; created on first use. Boards
+ * only ever show its `publicIdFor` digest.
+ */
+export const loadPlayerSecret = (storage: QueueStorage) => {
+  try {
+    const existing = storage.getItem(PLAYER_SECRET_KEY);
+    if (existing) return existing;
+  } catch {
+    // Fall through to a fresh secret.
+  }
+  const secret = crypto.randomUUID();
+  try {
+    storage.setItem(PLAYER_SECRET_KEY, secret);
+  } catch {
+    // Without storage the secret only lasts this session.
+  }
+  return secret;
+};
@@ -0,0 +1,120 @@
+import { sanitizeInitials } from '../core/leaderboard';
+import type { DifficultyKey, GameState, ReplayData } from '../core/types';
+import { scenarioForReplay, simulateReplay, validateReplay } from '../replay/replay';
+
+// Wire format shared by the game client and the reference server in `scripts/leaderboard-server.ts`.
+// Only arcade runs go online: scenario runs are not comparable across players.
+
+export type OnlineBoardKey = `arcade:${DifficultyKey}`;
+
+/** What the run claims to have done; the server replays it and rejects any mismatch. */
+export type RunSummary = {
+  score: number;
+  durationSeconds: number;
+  sizeTier: number;
+  eaten: number;
+  apexHits: number;
+  apexKills: number;
+  bossesDefeated: number;
+  bestCombo: number;
+};
+
+export type RunSubmission = {
+  /** Only this device knows it; it proves ownership of the player's entries and is never published. */
+  playerSecret: string;
+  initials: string;
+  /** Seed, difficulty and every input frame, so the engine can reproduce the run exactly. */
+  replay: ReplayData;
+  summary: RunSummary;
+};
+
+export type OnlineEntry = {
+  rank: number;
+  /** See `publicIdFor`; safe to show, since it cannot be used to submit or rename. */
+  publicId: string;
+  initials: string;
+  score: number;
+  durationSeconds: number;
+  sizeTier: number;
+  /** Epoch milliseconds when the server accepted the run. */
+  submittedAt: number;
+};
+
+export type SubmitResult =
+  | { accepted: true; board: OnlineBoardKey; entry: OnlineEntry }
+  | { accepted: false; reason: RejectReason };
+
+export type RejectReason =
+  | 'malformed'
+  | 'invalid-replay'
+  | 'unsupported-mode'
+  | 'too-long'
+  | 'incomplete-run'
+  | 'score-mismatch'
+  | 'summary-mismatch';
+
+/** An hour at 60fps; anything longer is refused before the server spends time simulating it. */
+export const MAX_SUBMISSION_FRAMES = 60 * 60 * 60;
+
+/** The id boards list a player under: a digest of their secret, so it cannot be turned back into one. */
+export const publicIdFor = async (playerSecret: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(playerSecret));
+  return [...new Uint8Array(digest, 0, 8)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const boardKeyFor = (difficulty: DifficultyKey): OnlineBoardKey => `arcade:${difficulty}`;
+
+export const runSummaryOf = (state: GameState): RunSummary => ({
+  score: state.run.score,
+  // Whole milliseconds, so the figure survives JSON round trips unchanged.
+  durationSeconds: Math.round(state.run.timeSeconds * 1000) / 1000,
+  sizeTier: state.player.sizeTier,
+  eaten: state.run.preyEaten,
+  apexHits: state.run.apexHits,
+  apexKills: state.run.apexKills,
+  bossesDefeated: state.run.bossesDefeated,
+  bestCombo: state.run.bestCombo,
+});
+
+const summaryKeys: (keyof RunSummary)[] = [
+  'score', 'durationSeconds', 'sizeTier', 'eaten', 'apexHits', 'apexKills', 'bossesDefeated', 'bestCombo',
+];
+
+const isRunSummary = (value: unknown): value is RunSummary => {
+  if (!value || typeof value !== 'object') return false;
+  const summary = value as Record<string, unknown>;
+  return summaryKeys.every((key) => typeof summary[key] === 'number' && Number.isFinite(summary[key]));
+};
+
+export type VerifiedRun =
+  | { ok: true; submission: RunSubmission; board: OnlineBoardKey; summary: RunSummary }
+  | { ok: false; reason: RejectReason };
+
+/**
+ * Server-side check: re-simulates the submitted replay with this build's engine and accepts the run
+ * only when it ends on its own and reproduces the claimed score and summary exactly.
+ */
+export const verifySubmission = (body: unknown): VerifiedRun => {
+  if (!body || typeof body !== 'object') return { ok: false, reason: 'malformed' };
+  const raw = body as Record<string, unknown>;
+  if (typeof raw.playerSecret !== 'string' || !raw.playerSecret || typeof raw.initials !== 'string' || !isRunSummary(raw.summary)) {
+    return { ok: false, reason: 'malformed' };
+  }
+  const replay = validateReplay(raw.replay);
+  if (!replay) return { ok: false, reason: 'invalid-replay' };
+  if (scenarioForReplay(replay)) return { ok: false, reason: 'unsupported-mode' };
+  if (replay.frameCount > MAX_SUBMISSION_FRAMES) return { ok: false, reason: 'too-long' };
+
+  const state = simulateReplay(replay, MAX_SUBMISSION_FRAMES);
+  if (state.mode !== 'gameOver') return { ok: false, reason: 'incomplete-run' };
+  const actual = runSummaryOf(state);
+  const claimed = raw.summary;
+  if (actual.score !== replay.finalScore || actual.score !== claimed.score) return { ok: false, reason: 'score-mismatch' };
+  if (summaryKeys.some((key) => actual[key] !== claimed[key])) return { ok: false, reason: 'summary-mismatch' };
+  return {
+    ok: true,
+    submission: { playerSecret: raw.playerSecret, initials: sanitizeInitials(raw.initials), replay, summary: actual },
+    board: boardKeyFor(replay.difficulty),
+    summary: actual,
+  };
+};
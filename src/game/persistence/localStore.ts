@@ -1,43 +1,131 @@
+import { campaignStages } from '../core/campaign';
+import { isBetterChallengeResult } from '../core/challenges';
 import { defaultSaveData } from '../core/config';
-import type { DifficultyKey, SaveData } from '../core/types';
+import { nextDailyStreak } from '../core/daily';
+import { scenarioOf } from '../core/engine';
+import { leaderboardEntryFor, sanitizeInitials, trimLeaderboard } from '../core/leaderboard';
+import type { GameState, ReplayData, SaveData } from '../core/types';
+import { migrateSave, type RawSave } from './migrations';
+import { validateSaveData, type SaveValidation } from './saveSchema';
 
 const STORAGE_KEY = 'reef-rush-save-v1';
+/** Copy of the last save that loaded cleanly, used when the main entry is unreadable. */
+const BACKUP_KEY = 'reef-rush-save-backup';
 
-export const loadSaveData = (): SaveData => {
+/** Parses, migrates and validates stored save JSON; null when it is not a readable save object. */
+export const readSaveJson = (raw: string): SaveValidation | null => {
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return null;
+    return validateSaveData(migrateSave(parsed as RawSave));
+  } catch {
+    return null;
+  }
+};
+
+const readKey = (key: string) => {
   try {
-    const raw = localStorage.getItem(STORAGE_KEY);
-    if (!raw) return structuredClone(defaultSaveData);
-    const parsed = JSON.parse(raw) as Partial<SaveData>;
-    return {
-      ...structuredClone(defaultSaveData),
-      ...parsed,
-      settings: { ...defaultSaveData.settings, ...(parsed.settings ?? {}) },
-      highScores: { ...defaultSaveData.highScores, ...(parsed.highScores ?? {}) },
-      stats: { ...defaultSaveData.stats, ...(parsed.stats ?? {}) },
-      meta: { ...defaultSaveData.meta, ...(parsed.meta ?? {}) },
-      campaign: { ...defaultSaveData.campaign, ...(parsed.campaign ?? {}) },
-      challenges: { ...defaultSaveData.challenges, ...(parsed.challenges ?? {}) },
-    };
+    return localStorage.getItem(key);
   } catch {
-    return structuredClone(defaultSaveData);
+    return null;
+  }
+};
+
+export const loadSaveData = (): SaveData => {
+  const raw = readKey(STORAGE_KEY);
+  if (raw) {
+    const loaded = readSaveJson(raw);
+    if (loaded) {
+      // Only a fully valid save replaces the backup, so a partly reset one can still be recovered.
+      if (!loaded.issues.length) {
+        try {
+          localStorage.setItem(BACKUP_KEY, raw);
+        } catch {
+          // Backup is best effort.
+        }
+      }
+      return loaded.data;
+    }
   }
+  const backup = readKey(BACKUP_KEY);
+  const restored = backup ? readSaveJson(backup) : null;
+  return restored ? restored.data : structuredClone(defaultSaveData);
 };
 
 export const saveSaveData = (data: SaveData) => {
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+  } catch {
+    // Storage full or unavailable (private mode); progress stays in memory for this session.
+  }
 };
 
-export const updateAfterRun = (save: SaveData, difficulty: DifficultyKey, score: number, playSeconds: number, preyEaten: number, bestSize: number): SaveData => {
+/** `now` stamps the run's leaderboard entry; its id is `leaderboardEntryFor(state, now).id`. */
+export const updateAfterRun = (save: SaveData, state: GameState, replay?: ReplayData | null, now = Date.now()): SaveData => {
   const next: SaveData = structuredClone(save);
-  next.highScores[difficulty] = Math.max(next.highScores[difficulty], score);
-  next.stats.runsStarted = Math.max(next.stats.runsStarted, next.meta.totalRuns);
-  next.stats.totalDeaths += 1;
-  next.stats.totalPlaySeconds += playSeconds;
-  next.stats.totalPreyEaten += preyEaten;
-  next.stats.bestSizeTier = Math.max(next.stats.bestSizeTier, bestSize);
+  next.leaderboard = trimLeaderboard([...next.leaderboard, leaderboardEntryFor(state, now)]);
+  const difficulty = state.difficulty.key;
+  const score = state.run.score;
+  if (!scenarioOf(state)) {
+    if (replay && score > next.highScores[difficulty]) next.highScoreReplays[difficulty] = replay;
+    next.highScores[difficulty] = Math.max(next.highScores[difficulty], score);
+  }
   next.meta.highestMilestone = Math.max(next.meta.highestMilestone, Math.floor(score / 1000));
-  if (score >= 1000) {
-    next.campaign.unlockedStage = Math.max(next.campaign.unlockedStage, 2);
+  next.stats.runsStarted = Math.max(next.stats.runsStarted, next.meta.totalRuns);
+  if (state.player.lives <= 0) next.stats.totalDeaths += 1;
+  next.stats.totalPlaySeconds += state.run.timeSeconds;
+  next.stats.totalPreyEaten += state.run.preyEaten;
+  next.stats.bestSizeTier = Math.max(next.stats.bestSizeTier, state.player.sizeTier);
+  next.stats.totalApexHits += state.run.apexHits;
+  next.stats.totalApexKills += state.run.apexKills;
+  next.stats.bossesDefeated += state.run.bossesDefeated;
+  if (state.stage?.status === 'complete') {
+    const { id, index } = state.stage.definition;
+    next.campaign.starsByStage[id] = Math.max(next.campaign.starsByStage[id] ?? 0, state.stage.stars);
+    next.campaign.completedStage = Math.max(next.campaign.completedStage, index);
+    next.campaign.unlockedStage = Math.max(next.campaign.unlockedStage, Math.min(index + 1, campaignStages.length));
   }
+  if (state.challenge?.status === 'complete') {
+    const { definition, result } = state.challenge;
+    if (!next.challenges.completedIds.includes(definition.id)) next.challenges.completedIds.push(definition.id);
+    if (isBetterChallengeResult(definition, result, next.challenges.bestById[definition.id])) {
+      next.challenges.bestById[definition.id] = result;
+    }
+  }
+  return next;
+};
+
+/** Consumes today's scored daily attempt; called when the run starts so quitting mid-run cannot earn a retry. */
+export const recordDailyAttempt = (save: SaveData, dateKey: string): SaveData => {
+  const next: SaveData = structuredClone(save);
+  next.challenges.dailyStreak = nextDailyStreak(save.challenges, dateKey);
+  next.challenges.dailyLastDate = dateKey;
+  next.challenges.dailyLastScore = 0;
+  return next;
+};
+
+/** Signs a leaderboard entry; a no-op once the entry has been pushed off the board. */
+export const setLeaderboardInitials = (save: SaveData, id: string, initials: string): SaveData => {
+  if (!save.leaderboard.some((e) => e.id === id)) return save;
+  return {
+    ...save,
+    leaderboard: save.leaderboard.map((e) => (e.id === id ? { ...e, initials: sanitizeInitials(initials) } : e)),
+  };
+};
+
+/** Marks achievements unlocked at `now`; ids that are already unlocked keep their original time. */
+export const unlockAchievements = (save: SaveData, ids: string[], now = Date.now()): SaveData => {
+  const fresh = ids.filter((id) => save.achievements.unlockedAt[id] === undefined);
+  if (!fresh.length) return save;
+  const next: SaveData = structuredClone(save);
+  for (const id of fresh) next.achievements.unlockedAt[id] = now;
+  return next;
+};
+
+export const recordDailyScore = (save: SaveData, dateKey: string, score: number): SaveData => {
+  if (save.challenges.dailyLastDate !== dateKey) return save;
+  const next: SaveData = structuredClone(save);
+  next.challenges.dailyLastScore = score;
+  next.challenges.dailyBestScore = Math.max(next.challenges.dailyBestScore, score);
   return next;
 };
@@ -0,0 +1,79 @@
+import { defaultSaveData } from '../core/config';
+
+/** Save JSON as read from storage, before validation; any field may be missing or malformed. */
+export type RawSave = Record<string, unknown>;
+
+type Migration = {
+  /** Version this step upgrades from; it produces `from + 1`. */
+  from: number;
+  migrate: (data: RawSave) => RawSave;
+};
+
+export const CURRENT_SAVE_VERSION = defaultSaveData.version;
+
+const asObject = (value: unknown): RawSave => (value && typeof value === 'object' && !Array.isArray(value) ? value as RawSave : {});
+
+/**
+ * Ordered upgrade steps. Never edit a shipped step; add a new one and bump `defaultSaveData.version`.
+ * Steps only reshape data; `validateSaveData` fills anything still missing from defaults afterwards.
+ */
+const migrations: Migration[] = [
+  {
+    // v2 added best-run replays and daily run bookkeeping.
+    from: 1,
+    migrate: (data) => {
+      const challenges = asObject(data.challenges);
+      return {
+        ...data,
+        highScoreReplays: asObject(data.highScoreReplays),
+        challenges: {
+          ...challenges,
+          dailyLastDate: challenges.dailyLastDate ?? null,
+          dailyLastScore: challenges.dailyLastScore ?? 0,
+          dailyBestScore: challenges.dailyBestScore ?? 0,
+        },
+      };
+    },
+  },
+  {
+    // v3 added the per-run leaderboard; each existing arcade high score becomes its first entry.
+    from: 2,
+    migrate: (data) => {
+      const highScores = asObject(data.highScores);
+      const leaderboard = Object.entries(highScores)
+        .filter(([, score]) => typeof score === 'number' && score > 0)
+        .map(([difficulty, score]) => ({
+          id: `legacy-${difficulty}`,
+          mode: 'arcade',
+          difficulty,
+          score,
+          date: 0,
+          durationSeconds: 0,
+          sizeTier: 1,
+          apexKills: 0,
+          cause: null,
+          initials: '',
+          legacy: true,
+        }));
+      return { ...data, leaderboard };
+    },
+  },
+];
+
+export const saveVersionOf = (data: RawSave) => {
+  const v = data.version;
+  return typeof v === 'number' && Number.isInteger(v) && v >= 1 ? v : 1;
+};
+
+/** Runs every step between the stored version and the current one. Saves from a newer build pass through untouched. */
+export const migrateSave = (data: RawSave): RawSave => {
+  let next = data;
+  let version = saveVersionOf(data);
+  while (version < CURRENT_SAVE_VERSION) {
+    const step = migrations.find((m) => m.from === version);
+    if (!step) throw new Error(`No save migration from version ${version}`);
+    next = { ...step.migrate(next), version: version + 1 };
+    version += 1;
+  }
+  return next;
+};
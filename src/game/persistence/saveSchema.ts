@@ -0,0 +1,188 @@
+import { keyActions, KEYS_PER_ACTION } from '../core/bindings';
+import { defaultSaveData } from '../core/config';
+import { trimLeaderboard } from '../core/leaderboard';
+import type { ChallengeProgress, DifficultyKey, GameSettings, KeyBindings, LeaderboardEntry, PlayModeKey, RunEndCause, SaveData } from '../core/types';
+import { validateReplay } from '../replay/replay';
+import type { RawSave } from './migrations';
+
+const difficultyKeys: DifficultyKey[] = ['easy', 'normal', 'hard'];
+const modeKeys: PlayModeKey[] = ['arcade', 'campaign', 'challenges'];
+const runEndCauses: RunEndCause[] = [
+  'prey', 'predator', 'apex', 'hazard', 'pickup', 'jellyfish', 'mine', 'urchin', 'net', 'time', 'rule', 'cleared',
+];
+
+const asObject = (value: unknown): RawSave => (value && typeof value === 'object' && !Array.isArray(value) ? value as RawSave : {});
+
+/**
+ * Field readers: each returns the stored value when it has the right shape, otherwise the fallback
+ * plus a note in `issues`. One bad field never costs the player the rest of their save.
+ */
+const createReader = (issues: string[]) => {
+  const fallback = <T>(path: string, value: unknown, def: T): T => {
+    if (value !== undefined) issues.push(path);
+    return def;
+  };
+  return {
+    num: (path: string, value: unknown, def: number, min = 0) => (
+      typeof value === 'number' && Number.isFinite(value) && value >= min ? value : fallback(path, value, def)
+    ),
+    bool: (path: string, value: unknown, def: boolean) => (typeof value === 'boolean' ? value : fallback(path, value, def)),
+    oneOf: <T extends string>(path: string, value: unknown, options: readonly T[], def: T) => (
+      options.includes(value as T) ? value as T : fallback(path, value, def)
+    ),
+    dateKey: (path: string, value: unknown, def: string | null) => (
+      value === null || (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)) ? value : fallback(path, value, def)
+    ),
+    numberRecord: (path: string, value: unknown, min = 0) => {
+      const out: Record<string, number> = {};
+      for (const [key, v] of Object.entries(asObject(value))) {
+        if (typeof v === 'number' && Number.isFinite(v) && v >= min) out[key] = v;
+        else issues.push(`${path}.${key}`);
+      }
+      return out;
+    },
+    stringList: (path: string, value: unknown) => {
+      if (!Array.isArray(value)) return fallback(path, value, [] as string[]);
+      return value.filter((v): v is string => typeof v === 'string');
+    },
+  };
+};
+
+const isCount = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+/** Leaderboard rows are all-or-nothing: a malformed one is dropped rather than patched with made-up values. */
+const readLeaderboardEntry = (value: unknown): LeaderboardEntry | null => {
+  const e = asObject(value);
+  const valid = typeof e.id === 'string'
+    && modeKeys.includes(e.mode as PlayModeKey)
+    && difficultyKeys.includes(e.difficulty as DifficultyKey)
+    && [e.score, e.date, e.durationSeconds, e.apexKills].every(isCount)
+    && isCount(e.sizeTier)
+    && (e.cause === null || runEndCauses.includes(e.cause as RunEndCause))
+    && typeof e.initials === 'string' && /^[A-Z0-9]{0,3}$/.test(e.initials);
+  if (!valid) return null;
+  return {
+    id: e.id as string,
+    mode: e.mode as PlayModeKey,
+    difficulty: e.difficulty as DifficultyKey,
+    score: e.score as number,
+    date: e.date as number,
+    durationSeconds: e.durationSeconds as number,
+    sizeTier: e.sizeTier as number,
+    apexKills: e.apexKills as number,
+    cause: e.cause as RunEndCause | null,
+    initials: e.initials as string,
+    ...(e.legacy === true ? { legacy: true } : {}),
+  };
+};
+
+/** Per action, so one corrupt binding falls back to its default without resetting the rest. */
+const readKeyBindings = (value: unknown, def: KeyBindings, issues: string[]): KeyBindings => {
+  const raw = asObject(value);
+  const out = { ...def };
+  for (const { action } of keyActions) {
+    const keys = raw[action];
+    if (keys === undefined) continue;
+    if (Array.isArray(keys) && keys.length <= KEYS_PER_ACTION && keys.every((k) => typeof k === 'string' && k !== '')) {
+      out[action] = keys.map((k: string) => k.toLowerCase());
+    } else {
+      issues.push(`settings.keyBindings.${action}`);
+    }
+  }
+  return out;
+};
+
+export type SaveValidation = {
+  data: SaveData;
+  /** Dotted paths of fields that were present but malformed and were reset to defaults. */
+  issues: string[];
+};
+
+export const validateSaveData = (raw: RawSave): SaveValidation => {
+  const issues: string[] = [];
+  const r = createReader(issues);
+  const d = defaultSaveData;
+
+  const settingsIn = asObject(raw.settings);
+  const settings: GameSettings = {
+    soundEnabled: r.bool('settings.soundEnabled', settingsIn.soundEnabled, d.settings.soundEnabled),
+    musicEnabled: r.bool('settings.musicEnabled', settingsIn.musicEnabled, d.settings.musicEnabled),
+    hapticsEnabled: r.bool('settings.hapticsEnabled', settingsIn.hapticsEnabled, d.settings.hapticsEnabled),
+    reducedMotion: r.bool('settings.reducedMotion', settingsIn.reducedMotion, d.settings.reducedMotion),
+    controlMode: r.oneOf('settings.controlMode', settingsIn.controlMode, ['joystick', 'drag'] as const, d.settings.controlMode),
+    keyBindings: readKeyBindings(settingsIn.keyBindings, d.settings.keyBindings, issues),
+    gamepadDeadzone: r.num('settings.gamepadDeadzone', settingsIn.gamepadDeadzone, d.settings.gamepadDeadzone),
+    gamepadResponseCurve: r.num('settings.gamepadResponseCurve', settingsIn.gamepadResponseCurve, d.settings.gamepadResponseCurve, 0.5),
+    telemetryEnabled: r.bool('settings.telemetryEnabled', settingsIn.telemetryEnabled, d.settings.telemetryEnabled),
+  };
+
+  const highScoresIn = asObject(raw.highScores);
+  const replaysIn = asObject(raw.highScoreReplays);
+  const highScores = { ...d.highScores };
+  const highScoreReplays: SaveData['highScoreReplays'] = {};
+  for (const key of difficultyKeys) {
+    highScores[key] = r.num(`highScores.${key}`, highScoresIn[key], d.highScores[key]);
+    if (replaysIn[key] === undefined) continue;
+    const replay = validateReplay(replaysIn[key]);
+    if (replay) highScoreReplays[key] = replay;
+    else issues.push(`highScoreReplays.${key}`);
+  }
+
+  const statsIn = asObject(raw.stats);
+  const metaIn = asObject(raw.meta);
+  const campaignIn = asObject(raw.campaign);
+  const challengesIn = asObject(raw.challenges);
+  const achievementsIn = asObject(raw.achievements);
+  const leaderboard: LeaderboardEntry[] = [];
+  if (Array.isArray(raw.leaderboard)) {
+    raw.leaderboard.forEach((value, i) => {
+      const entry = readLeaderboardEntry(value);
+      if (entry) leaderboard.push(entry);
+      else issues.push(`leaderboard.${i}`);
+    });
+  } else if (raw.leaderboard !== undefined) {
+    issues.push('leaderboard');
+  }
+  const challenges: ChallengeProgress = {
+    completedIds: r.stringList('challenges.completedIds', challengesIn.completedIds),
+    bestById: r.numberRecord('challenges.bestById', challengesIn.bestById),
+    dailyStreak: r.num('challenges.dailyStreak', challengesIn.dailyStreak, d.challenges.dailyStreak),
+    dailyLastDate: r.dateKey('challenges.dailyLastDate', challengesIn.dailyLastDate, d.challenges.dailyLastDate),
+    dailyLastScore: r.num('challenges.dailyLastScore', challengesIn.dailyLastScore, d.challenges.dailyLastScore),
+    dailyBestScore: r.num('challenges.dailyBestScore', challengesIn.dailyBestScore, d.challenges.dailyBestScore),
+  };
+
+  const data: SaveData = {
+    version: r.num('version', raw.version, d.version, 1),
+    selectedMode: r.oneOf('selectedMode', raw.selectedMode, modeKeys, d.selectedMode),
+    selectedDifficulty: r.oneOf('selectedDifficulty', raw.selectedDifficulty, difficultyKeys, d.selectedDifficulty),
+    settings,
+    highScores,
+    highScoreReplays,
+    stats: {
+      runsStarted: r.num('stats.runsStarted', statsIn.runsStarted, d.stats.runsStarted),
+      totalDeaths: r.num('stats.totalDeaths', statsIn.totalDeaths, d.stats.totalDeaths),
+      totalPlaySeconds: r.num('stats.totalPlaySeconds', statsIn.totalPlaySeconds, d.stats.totalPlaySeconds),
+      totalPreyEaten: r.num('stats.totalPreyEaten', statsIn.totalPreyEaten, d.stats.totalPreyEaten),
+      bestSizeTier: r.num('stats.bestSizeTier', statsIn.bestSizeTier, d.stats.bestSizeTier, 1),
+      totalApexHits: r.num('stats.totalApexHits', statsIn.totalApexHits, d.stats.totalApexHits),
+      totalApexKills: r.num('stats.totalApexKills', statsIn.totalApexKills, d.stats.totalApexKills),
+      bossesDefeated: r.num('stats.bossesDefeated', statsIn.bossesDefeated, d.stats.bossesDefeated),
+    },
+    meta: {
+      highestMilestone: r.num('meta.highestMilestone', metaIn.highestMilestone, d.meta.highestMilestone),
+      totalRuns: r.num('meta.totalRuns', metaIn.totalRuns, d.meta.totalRuns),
+    },
+    campaign: {
+      unlockedStage: r.num('campaign.unlockedStage', campaignIn.unlockedStage, d.campaign.unlockedStage, 1),
+      completedStage: r.num('campaign.completedStage', campaignIn.completedStage, d.campaign.completedStage),
+      starsByStage: r.numberRecord('campaign.starsByStage', campaignIn.starsByStage),
+    },
+    challenges,
+    achievements: {
+      unlockedAt: r.numberRecord('achievements.unlockedAt', achievementsIn.unlockedAt),
+    },
+    leaderboard: trimLeaderboard(leaderboard),
+  };
+  return { data, issues };
+};
@@ -0,0 +1,193 @@
+import { campaignStages } from '../core/campaign';
+import { challengeById, isBetterChallengeResult } from '../core/challenges';
+import { difficulties } from '../core/config';
+import { trimLeaderboard } from '../core/leaderboard';
+import { hashString } from '../core/math';
+import type { ChallengeProgress, DifficultyKey, SaveData } from '../core/types';
+import { migrateSave, type RawSave } from './migrations';
+import { validateSaveData } from './saveSchema';
+
+const FILE_FORMAT = 'reef-rush-save';
+const CODE_PREFIX = 'REEF1';
+
+export type SaveImportSource = 'file' | 'code';
+export type SaveImportStrategy = 'merge' | 'replace';
+
+export type SaveImport = {
+  data: SaveData;
+  source: SaveImportSource;
+  /** Fields that were malformed in the import and fell back to defaults. */
+  issues: string[];
+};
+
+export type SaveImportResult = { ok: true; value: SaveImport } | { ok: false; error: string };
+
+export type SaveChange = {
+  label: string;
+  from: string;
+  to: string;
+};
+
+const checksumOf = (payload: string) => hashString(payload).toString(16).padStart(8, '0');
+
+const toBase64Url = (text: string) => {
+  let binary = '';
+  for (const b of new TextEncoder().encode(text)) binary += String.fromCharCode(b);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (value: string) => {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i += 1) bytes[i] = binary.charCodeAt(i);
+  return new TextDecoder().decode(bytes);
+};
+
+/** Full backup including best-run replays, wrapped with a checksum of the save JSON. */
+export const exportSaveFile = (save: SaveData, now = new Date()) => {
+  const payload = JSON.stringify(save);
+  return JSON.stringify({ format: FILE_FORMAT, exportedAt: now.toISOString(), checksum: checksumOf(payload), save }, null, 2);
+};
+
+export const saveFileName = (now = new Date()) => `reef-rush-save-${now.toISOString().slice(0, 10)}.json`;
+
+/** Copyable `REEF1.<payload>.<checksum>` code. Replays are left out to keep it short enough to paste. */
+export const exportSaveCode = (save: SaveData) => {
+  const payload = toBase64Url(JSON.stringify({ ...save, highScoreReplays: {} }));
+  return `${CODE_PREFIX}.${payload}.${checksumOf(payload)}`;
+};
+
+const finishImport = (raw: unknown, source: SaveImportSource): SaveImportResult => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return { ok: false, error: 'Not a save file' };
+  try {
+    const { data, issues } = validateSaveData(migrateSave(raw as RawSave));
+    return { ok: true, value: { data, source, issues } };
+  } catch {
+    return { ok: false, error: 'Save is from an unsupported version' };
+  }
+};
+
+const parseSaveCode = (code: string): SaveImportResult => {
+  const parts = code.split('.');
+  if (parts.length !== 3 || parts[0] !== CODE_PREFIX) return { ok: false, error: 'Not a save code' };
+  const [, payload, checksum] = parts;
+  if (checksumOf(payload) !== checksum.toLowerCase()) return { ok: false, error: 'Save code is damaged or incomplete' };
+  try {
+    return finishImport(JSON.parse(fromBase64Url(payload)), 'code');
+  } catch {
+    return { ok: false, error: 'Save code is damaged or incomplete' };
+  }
+};
+
+const parseSaveFile = (text: string): SaveImportResult => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { ok: false, error: 'File is not valid JSON' };
+  }
+  const wrapper = parsed as { format?: unknown; checksum?: unknown; save?: unknown } | null;
+  if (!wrapper || wrapper.format !== FILE_FORMAT || !wrapper.save) return { ok: false, error: 'Not a save file' };
+  if (typeof wrapper.checksum !== 'string' || checksumOf(JSON.stringify(wrapper.save)) !== wrapper.checksum) {
+    return { ok: false, error: 'Save file checksum does not match' };
+  }
+  return finishImport(wrapper.save, 'file');
+};
+
+/** Accepts either an exported file's contents or a share code. */
+export const parseSaveImport = (text: string): SaveImportResult => {
+  const trimmed = text.trim();
+  if (!trimmed) return { ok: false, error: 'Nothing to import' };
+  return trimmed.startsWith('{') ? parseSaveFile(trimmed) : parseSaveCode(trimmed);
+};
+
+const mergeChallenges = (a: ChallengeProgress, b: ChallengeProgress): ChallengeProgress => {
+  const bestById = { ...a.bestById };
+  for (const [id, value] of Object.entries(b.bestById)) {
+    const definition = challengeById(id);
+    const better = definition ? isBetterChallengeResult(definition, value, bestById[id]) : bestById[id] === undefined;
+    if (better) bestById[id] = value;
+  }
+  // The streak belongs to whichever device played the most recent daily.
+  const aDate = a.dailyLastDate ?? '';
+  const bDate = b.dailyLastDate ?? '';
+  const latest = bDate > aDate || (bDate === aDate && b.dailyStreak > a.dailyStreak) ? b : a;
+  return {
+    completedIds: [...new Set([...a.completedIds, ...b.completedIds])],
+    bestById,
+    dailyStreak: latest.dailyStreak,
+    dailyLastDate: latest.dailyLastDate,
+    dailyLastScore: latest.dailyLastScore,
+    dailyBestScore: Math.max(a.dailyBestScore, b.dailyBestScore),
+  };
+};
+
+/**
+ * Keeps the best of both saves. Counters take the larger value rather than the sum, so importing
+ * the same save twice (or a save exported from this device) never inflates stats.
+ */
+export const mergeSaveData = (current: SaveData, incoming: SaveData): SaveData => {
+  const next: SaveData = structuredClone(current);
+  for (const key of Object.keys(next.highScores) as DifficultyKey[]) {
+    if (incoming.highScores[key] <= next.highScores[key]) continue;
+    next.highScores[key] = incoming.highScores[key];
+    const replay = incoming.highScoreReplays[key];
+    if (replay) next.highScoreReplays[key] = replay;
+    else delete next.highScoreReplays[key];
+  }
+  for (const key of Object.keys(next.stats) as (keyof SaveData['stats'])[]) {
+    next.stats[key] = Math.max(next.stats[key], incoming.stats[key]);
+  }
+  next.meta.highestMilestone = Math.max(next.meta.highestMilestone, incoming.meta.highestMilestone);
+  next.meta.totalRuns = Math.max(next.meta.totalRuns, incoming.meta.totalRuns);
+  next.campaign.unlockedStage = Math.max(next.campaign.unlockedStage, incoming.campaign.unlockedStage);
+  next.campaign.completedStage = Math.max(next.campaign.completedStage, incoming.campaign.completedStage);
+  for (const [id, stars] of Object.entries(incoming.campaign.starsByStage)) {
+    next.campaign.starsByStage[id] = Math.max(next.campaign.starsByStage[id] ?? 0, stars);
+  }
+  next.challenges = mergeChallenges(next.challenges, incoming.challenges);
+  for (const [id, at] of Object.entries(incoming.achievements.unlockedAt)) {
+    next.achievements.unlockedAt[id] = Math.min(next.achievements.unlockedAt[id] ?? at, at);
+  }
+  const knownIds = new Set(next.leaderboard.map((e) => e.id));
+  next.leaderboard = trimLeaderboard([...next.leaderboard, ...incoming.leaderboard.filter((e) => !knownIds.has(e.id))]);
+  return next;
+};
+
+/** Replacing adopts the imported progress wholesale but keeps this device's settings and selections. */
+export const applySaveImport = (current: SaveData, incoming: SaveData, strategy: SaveImportStrategy): SaveData => {
+  if (strategy === 'merge') return mergeSaveData(current, incoming);
+  return {
+    ...structuredClone(incoming),
+    version: current.version,
+    settings: current.settings,
+    selectedMode: current.selectedMode,
+    selectedDifficulty: current.selectedDifficulty,
+  };
+};
+
+const totalStars = (save: SaveData) => Object.values(save.campaign.starsByStage).reduce((sum, s) => sum + s, 0);
+
+const previewFields: [string, (save: SaveData) => string][] = [
+  ...(Object.keys(difficulties) as DifficultyKey[]).map((key): [string, (save: SaveData) => string] => [
+    `${difficulties[key].label} high score`,
+    (save) => String(save.highScores[key]),
+  ]),
+  ['Runs', (save) => String(save.stats.runsStarted)],
+  ['Deaths', (save) => String(save.stats.totalDeaths)],
+  ['Prey eaten', (save) => String(save.stats.totalPreyEaten)],
+  ['Play time', (save) => `${Math.round(save.stats.totalPlaySeconds / 60)} min`],
+  ['Best size', (save) => String(save.stats.bestSizeTier)],
+  ['Highest milestone', (save) => `${save.meta.highestMilestone}k`],
+  ['Stages unlocked', (save) => `${Math.min(save.campaign.unlockedStage, campaignStages.length)}/${campaignStages.length}`],
+  ['Campaign stars', (save) => String(totalStars(save))],
+  ['Challenges completed', (save) => String(save.challenges.completedIds.length)],
+  ['Daily streak', (save) => String(save.challenges.dailyStreak)],
+  ['Best daily score', (save) => String(save.challenges.dailyBestScore)],
+  ['Achievements', (save) => String(Object.keys(save.achievements.unlockedAt).length)],
+];
+
+/** Player-facing differences between the current save and the result of an import. */
+export const describeSaveChanges = (current: SaveData, next: SaveData): SaveChange[] => previewFields
+  .map(([label, read]) => ({ label, from: read(current), to: read(next) }))
+  .filter((change) => change.from !== change.to);
@@ -1,14 +1,18 @@
 import Phaser from 'phaser';
-import { createInitialGameState, setDifficulty, setMode, startNewRun, tickGame } from '../core/engine';
-import type { DifficultyKey, Entity, GameEvent, GameState, InputState } from '../core/types';
+import { currentPulse } from '../core/currents';
+import { bossSweepRadius, createInitialGameState, isPowerUpActive, scenarioKey, scenarioOf, setDifficulty, setScenario, startNewRun, tickGame } from '../core/engine';
+import type { CurrentZone, DifficultyKey, Entity, GameEvent, GameSettings, GameState, InputState, Obstacle, PowerUpKind, ReplayData, RunScenario } from '../core/types';
+import { ReplayPlayer, ReplayRecorder, scenarioForReplay } from '../replay/replay';
 import type { ThemeConfig } from '../theme';
 
 export type SceneBridge = {
-  getInputState: () => InputState;
+  getInputState: (state: GameState) => InputState;
   onState: (state: GameState) => void;
-  onEvents: (events: GameEvent[]) => void;
-  onRunStarted: () => void;
-  onRunEnded: (state: GameState) => void;
+  /** `state` is the frame that raised `events`. */
+  onEvents: (events: GameEvent[], state: GameState) => void;
+  onRunStarted: (state: GameState) => void;
+  onRunEnded: (state: GameState, replay: ReplayData | null) => void;
+  onReplayEnded: () => void;
   shouldStartRun: () => boolean;
   consumeStartRun: () => void;
   shouldRestartRun: () => boolean;
@@ -16,6 +20,26 @@ export type SceneBridge = {
   shouldTogglePause: () => boolean;
   consumeTogglePause: () => void;
   getDifficulty: () => DifficultyKey;
+  getScenario: () => RunScenario | null;
+  getSettings: () => GameSettings;
+  takeReplayRequest: () => ReplayData | null;
+  shouldStopReplay: () => boolean;
+  consumeStopReplay: () => void;
+};
+
+/** Crops of the foreground reef art (source pixels) reused to dress pillars and caves. */
+const terrainFrames = {
+  'rocks-a': { texture: 'reef-bg-fore-left', x: 230, y: 690, w: 410, h: 290 },
+  'rocks-b': { texture: 'reef-bg-fore-right', x: 1000, y: 740, w: 320, h: 190 },
+  'coral-a': { texture: 'reef-bg-fore-right', x: 1085, y: 705, w: 170, h: 170 },
+  'coral-b': { texture: 'reef-bg-fore-left', x: 405, y: 585, w: 160, h: 180 },
+} as const;
+
+const powerUpLabels: Record<PowerUpKind, string> = {
+  speed: 'SPEED',
+  shield: 'SHIELD',
+  magnet: 'MAGNET',
+  frenzy: 'FRENZY',
 };
 
 export class GameScene extends Phaser.Scene {
@@ -24,11 +48,20 @@ export class GameScene extends Phaser.Scene {
   private static readonly USE_BG_MID_IMAGE = true;
   private static readonly USE_BG_FORE_IMAGE = false;
   private static readonly USE_CAUSTICS_IMAGE = true;
+  /** How far each backdrop layer moves relative to the camera; lower reads as further away. */
+  private static readonly BG_FAR_PARALLAX = 0.25;
+  private static readonly BG_MID_PARALLAX = 0.5;
+  private static readonly MINIMAP_WIDTH = 144;
+  /** Bosses reuse the apex art, drawn this much larger to match their bigger body. */
+  private static readonly BOSS_DISPLAY_SCALE = 1.3;
+  private static readonly BOSS_BAR_WIDTH = 380;
   private state!: GameState;
   private bridge!: SceneBridge;
   private theme!: ThemeConfig;
   private gfx!: Phaser.GameObjects.Graphics;
   private debugGfx!: Phaser.GameObjects.Graphics;
+  /** Screen-fixed overlay: vignette, power-up timers and the minimap. */
+  private hudGfx!: Phaser.GameObjects.Graphics;
   private bgFarSprite?: Phaser.GameObjects.Image;
   private bgMidSprite?: Phaser.GameObjects.Image;
   private bgCausticsSprite?: Phaser.GameObjects.Image;
@@ -37,6 +70,10 @@ export class GameScene extends Phaser.Scene {
   private bgForeSprite?: Phaser.GameObjects.Image;
   private playerSprite!: Phaser.GameObjects.Image;
   private entitySprites = new Map<number, Phaser.GameObjects.Image>();
+  private terrainSprites: Phaser.GameObjects.Image[] = [];
+  private renderedTerrain: Obstacle[] | null = null;
+  private powerUpTimerTexts = new Map<PowerUpKind, Phaser.GameObjects.Text>();
+  private bossLabel?: Phaser.GameObjects.Text;
   private floatTexts: Array<{ text: Phaser.GameObjects.Text; vx: number; vy: number; ttl: number }> = [];
   private particles: Array<{ x: number; y: number; vx: number; vy: number; r: number; ttl: number; color: number }> = [];
   private bubbles: Array<{ x: number; y: number; r: number; speed: number; drift: number; phase: number; alpha: number }> = [];
@@ -44,6 +81,9 @@ export class GameScene extends Phaser.Scene {
   private lastApexHitAtMs = -99999;
   private lastApexKillAtMs = -99999;
   private debugGeometry = false;
+  private recorder: ReplayRecorder | null = null;
+  private replayPlayer: ReplayPlayer | null = null;
+  private replayPaused = false;
 
   constructor() {
     super('GameScene');
@@ -52,7 +92,7 @@ export class GameScene extends Phaser.Scene {
   init(data: { bridge: SceneBridge; theme: ThemeConfig }) {
     this.bridge = data.bridge;
     this.theme = data.theme;
-    this.state = createInitialGameState(this.bridge.getDifficulty());
+    this.state = createInitialGameState(this.bridge.getDifficulty(), undefined, this.bridge.getScenario());
   }
 
   preload() {
@@ -80,30 +120,39 @@ export class GameScene extends Phaser.Scene {
     this.load.image('reef-apex-hit', '/assets/reef/apex_01_hit.png');
     this.load.svg('reef-predator', sprites.predator);
     this.load.svg('reef-hazard', sprites.hazard);
+    for (const [kind, path] of Object.entries(sprites.pickups)) {
+      this.load.svg(`pickup-${kind}`, path, { width: 96, height: 96 });
+    }
+    for (const [type, path] of Object.entries(sprites.hazards)) {
+      this.load.svg(`hazard-${type}`, path, { width: 96, height: 96 });
+    }
   }
 
   create() {
+    const { arena, view } = this.state;
     this.cameras.main.setBackgroundColor(this.theme.background);
+    this.cameras.main.setBounds(0, 0, arena.width, arena.height);
     if (this.textures.exists('reef-bg-far')) {
-      this.bgFarSprite = this.add.image(this.state.arena.width / 2, this.state.arena.height / 2, 'reef-bg-far')
+      this.bgFarSprite = this.addParallaxLayer('reef-bg-far', GameScene.BG_FAR_PARALLAX)
         .setDepth(-5)
-        .setDisplaySize(this.state.arena.width, this.state.arena.height)
         .setAlpha(0.92);
     }
     if (GameScene.USE_BG_MID_IMAGE && this.textures.exists('reef-bg-mid')) {
-      this.bgMidSprite = this.add.image(this.state.arena.width / 2, this.state.arena.height / 2, 'reef-bg-mid')
+      this.bgMidSprite = this.addParallaxLayer('reef-bg-mid', GameScene.BG_MID_PARALLAX)
         .setDepth(-4)
-        .setDisplaySize(this.state.arena.width, this.state.arena.height)
         .setAlpha(0.7);
     }
     this.gfx = this.add.graphics();
     this.gfx.setDepth(0);
     this.debugGfx = this.add.graphics();
     this.debugGfx.setDepth(30);
+    this.hudGfx = this.add.graphics().setDepth(19).setScrollFactor(0);
     if (GameScene.USE_CAUSTICS_IMAGE && this.textures.exists('reef-caustics')) {
-      this.bgCausticsSprite = this.add.image(this.state.arena.width / 2, this.state.arena.height / 2, 'reef-caustics')
+      // Light from the surface stays put on screen rather than scrolling with the seabed.
+      this.bgCausticsSprite = this.add.image(view.width / 2, view.height / 2, 'reef-caustics')
+        .setScrollFactor(0)
         .setDepth(3)
-        .setDisplaySize(this.state.arena.width, this.state.arena.height)
+        .setDisplaySize(view.width, view.height)
         .setAlpha(0.16)
         .setBlendMode(Phaser.BlendModes.ADD);
     }
@@ -130,6 +179,9 @@ export class GameScene extends Phaser.Scene {
         // Multiply blend suppresses the matte while preserving darker coral/rock shapes.
         .setBlendMode(Phaser.BlendModes.MULTIPLY);
     }
+    for (const [name, frame] of Object.entries(terrainFrames)) {
+      if (this.textures.exists(frame.texture)) this.textures.get(frame.texture).add(name, 0, frame.x, frame.y, frame.w, frame.h);
+    }
     this.playerSprite = this.add.image(0, 0, 'reef-player').setDepth(5);
     this.playerSprite.setOrigin(0.5);
     this.bubbles = Array.from({ length: 26 }, (_, i) => ({
@@ -147,36 +199,114 @@ export class GameScene extends Phaser.Scene {
     this.bridge.onState(this.state);
   }
 
+  /**
+   * A backdrop image anchored at the arena origin, sized so that scrolling at `factor` of the camera
+   * still covers the screen from one end of the arena to the other.
+   */
+  private addParallaxLayer(key: string, factor: number) {
+    const { arena, view } = this.state;
+    return this.add.image(0, 0, key)
+      .setOrigin(0, 0)
+      .setScrollFactor(factor)
+      .setDisplaySize(view.width + (arena.width - view.width) * factor, view.height + (arena.height - view.height) * factor);
+  }
+
   update(_time: number, delta: number) {
+    const replayRequest = this.bridge.takeReplayRequest();
+    if (replayRequest) this.beginReplay(replayRequest);
+    if (this.replayPlayer) {
+      this.updateReplay();
+      return;
+    }
+
     if (this.state.difficulty.key !== this.bridge.getDifficulty()) {
       this.state = setDifficulty(this.state, this.bridge.getDifficulty());
     }
+    const scenario = this.bridge.getScenario();
+    if (scenarioKey(scenarioOf(this.state)) !== scenarioKey(scenario)) {
+      this.state = setScenario(this.state, scenario);
+    }
 
-    if (this.bridge.shouldStartRun() && this.state.mode === 'title') {
+    // Mode first, so a start or restart press is only taken by the screen it applies to.
+    if (this.state.mode === 'title' && this.bridge.shouldStartRun()) {
       this.bridge.consumeStartRun();
-      this.state = startNewRun(this.state);
-      this.bridge.onRunStarted();
+      this.beginRun();
     }
 
-    if (this.bridge.shouldRestartRun() && this.state.mode === 'gameOver') {
+    if (this.state.mode === 'gameOver' && this.bridge.shouldRestartRun()) {
       this.bridge.consumeRestartRun();
-      this.state = startNewRun(this.state);
-      this.bridge.onRunStarted();
+      this.beginRun();
     }
 
+    let pauseToggled = false;
     if (this.bridge.shouldTogglePause()) {
       this.bridge.consumeTogglePause();
-      this.state = setMode(this.state, this.state.mode === 'paused' ? 'playing' : this.state.mode === 'playing' ? 'paused' : this.state.mode);
+      pauseToggled = true;
     }
 
-    const input = this.bridge.getInputState();
-    this.state = tickGame(this.state, input, delta);
+    // The pause toggle goes through tickGame so that recordings capture it as part of the frame input.
+    const raw = this.bridge.getInputState(this.state);
+    const input = { ...raw, pausePressed: raw.pausePressed || pauseToggled };
+    if (this.recorder) {
+      const frame = this.recorder.capture(input, delta);
+      this.state = tickGame(this.state, frame.input, frame.dtMs);
+    } else {
+      this.state = tickGame(this.state, input, delta);
+    }
 
     if (this.state.pendingEvents.length > 0) {
       this.handleSceneEvents(this.state.pendingEvents);
-      this.bridge.onEvents(this.state.pendingEvents);
-      if (this.state.pendingEvents.some((e) => e.type === 'game-over')) {
-        this.bridge.onRunEnded(this.state);
+      this.bridge.onEvents(this.state.pendingEvents, this.state);
+      if (this.state.pendingEvents.some((e) => e.type === 'game-over' || e.type === 'stage-complete' || e.type === 'challenge-complete')) {
+        const replay = this.recorder?.finish(this.state.run.score) ?? null;
+        this.recorder = null;
+        this.bridge.onRunEnded(this.state, replay);
+      }
+    }
+
+    this.bridge.onState(this.state);
+    this.updateBackdropLayers();
+    this.renderState();
+  }
+
+  private beginRun() {
+    this.state = startNewRun(this.state);
+    this.recorder = new ReplayRecorder(this.state.seed, this.state.difficulty.key, scenarioOf(this.state));
+    this.bridge.onRunStarted(this.state);
+  }
+
+  private beginReplay(replay: ReplayData) {
+    this.recorder = null;
+    this.replayPlayer = new ReplayPlayer(replay);
+    this.replayPaused = false;
+    this.state = startNewRun(createInitialGameState(replay.difficulty, replay.seed, scenarioForReplay(replay)), replay.seed);
+  }
+
+  private endReplay() {
+    this.replayPlayer = null;
+    this.state = createInitialGameState(this.bridge.getDifficulty(), undefined, this.bridge.getScenario());
+    this.bridge.onReplayEnded();
+  }
+
+  /** Playback ignores live input; pause only freezes the recording, it is never fed into the run. */
+  private updateReplay() {
+    if (this.bridge.shouldTogglePause()) {
+      this.bridge.consumeTogglePause();
+      this.replayPaused = !this.replayPaused;
+    }
+    if (this.bridge.shouldStopReplay()) {
+      this.bridge.consumeStopReplay();
+      this.endReplay();
+    } else if (!this.replayPaused) {
+      const frame = this.replayPlayer?.next();
+      if (!frame || this.state.mode === 'gameOver') {
+        this.endReplay();
+      } else {
+        this.state = tickGame(this.state, frame.input, frame.dtMs);
+        if (this.state.pendingEvents.length > 0) {
+          this.handleSceneEvents(this.state.pendingEvents);
+          this.bridge.onEvents(this.state.pendingEvents, this.state);
+        }
       }
     }
 
@@ -191,8 +321,8 @@ export class GameScene extends Phaser.Scene {
       this.bgCausticsSprite.setAlpha(0.12 + Math.sin(t / 900) * 0.02 + this.state.apexThreat.intensity * 0.04);
       this.bgCausticsSprite.setRotation(Math.sin(t / 5000) * 0.01);
       this.bgCausticsSprite.setPosition(
-        this.state.arena.width / 2 + Math.sin(t / 2200) * 3,
-        this.state.arena.height / 2 + Math.cos(t / 2600) * 2,
+        this.state.view.width / 2 + Math.sin(t / 2200) * 3,
+        this.state.view.height / 2 + Math.cos(t / 2600) * 2,
       );
     }
     if (this.bgForeLeftSprite) {
@@ -214,6 +344,8 @@ export class GameScene extends Phaser.Scene {
   private renderState() {
     this.gfx.clear();
     this.debugGfx.clear();
+    this.hudGfx.clear();
+    this.cameras.main.setScroll(Math.round(this.state.view.x), Math.round(this.state.view.y));
     this.updateFloatTexts();
     this.updateParticles();
 
@@ -221,6 +353,8 @@ export class GameScene extends Phaser.Scene {
     this.threatPulse = pulse;
     const dangerOverlay = Phaser.Math.Clamp(this.state.apexThreat.intensity * 0.35 + pulse, 0, 0.5);
     this.drawWaterBackdrop(dangerOverlay);
+    this.syncTerrainSprites();
+    this.drawTerrain();
     this.syncEntitySprites();
 
     this.gfx.lineStyle(3, 0x2d7ea2, 0.75);
@@ -229,6 +363,15 @@ export class GameScene extends Phaser.Scene {
     this.gfx.strokeRoundedRect(8, 8, this.state.arena.width - 16, this.state.arena.height - 16, 12);
 
     for (const e of this.state.entities) {
+      if (e.kind === 'pickup') {
+        const glow = this.theme.pickupColors[e.powerUp ?? 'speed'];
+        const pulseR = e.radius + 5 + Math.sin((this.state.elapsedMs + e.id * 29) / 160) * 2;
+        this.gfx.fillStyle(glow, 0.14);
+        this.gfx.fillCircle(e.pos.x, e.pos.y, pulseR + 4);
+        this.gfx.lineStyle(2, glow, 0.55);
+        this.gfx.strokeCircle(e.pos.x, e.pos.y, pulseR);
+        continue;
+      }
       const color = e.kind === 'prey'
         ? this.theme.preyColor
         : e.kind === 'predator'
@@ -237,7 +380,14 @@ export class GameScene extends Phaser.Scene {
             ? this.theme.apexColor
             : this.theme.hazardColor;
       this.gfx.fillStyle(color, e.kind === 'hazard' ? 0.7 : 0.95);
-      if (e.kind === 'hazard') {
+      if (e.kind === 'hazard' && e.hazardType === 'mine') {
+        const armed = this.state.run.timeSeconds >= (e.armedAt ?? 0);
+        const blink = armed && Math.sin(this.state.elapsedMs / 110) > 0;
+        this.gfx.lineStyle(2, armed ? 0xff5c5c : 0x9fb8c8, blink ? 0.8 : 0.3);
+        this.gfx.strokeCircle(e.pos.x, e.pos.y, e.radius + 5);
+      } else if (e.kind === 'hazard' && (e.hazardType === 'net' || e.hazardType === 'urchin')) {
+        continue;
+      } else if (e.kind === 'hazard') {
         this.gfx.lineStyle(1, 0xffffff, 0.4);
         this.gfx.strokeCircle(e.pos.x, e.pos.y, e.radius + 2);
         this.gfx.lineStyle(1, 0xc18bff, 0.22);
@@ -248,6 +398,7 @@ export class GameScene extends Phaser.Scene {
           this.gfx.fillEllipse(e.pos.x, e.pos.y, e.radius * 3.6, e.radius * 2.35);
           this.gfx.lineStyle(1, 0xffb7b7, 0.12 + this.state.apexThreat.intensity * 0.12);
           this.gfx.strokeEllipse(e.pos.x, e.pos.y, e.radius * 3.3, e.radius * 2.1);
+          if (e.boss) this.drawBossTelegraph(e);
         }
       }
     }
@@ -255,9 +406,150 @@ export class GameScene extends Phaser.Scene {
     const invuln = this.state.run.timeSeconds < this.state.player.invulnerableUntil;
     const alpha = invuln ? 0.4 + Math.abs(Math.sin(this.state.elapsedMs / 90)) * 0.5 : 1;
     this.syncPlayerSprite(alpha);
+    this.drawShield();
     if (this.debugGeometry) this.drawDebugGeometry();
     this.drawVignette();
     this.drawParticles();
+    this.drawPowerUpTimers();
+    this.drawBossHealth();
+    this.drawMinimap();
+  }
+
+  /** Wind-up cues, so every boss attack can be read before it lands: lunge lane, tail arc or summoning ring. */
+  private drawBossTelegraph(boss: Entity) {
+    const attack = boss.boss?.attack;
+    if (!attack || attack.stage === 'recover') return;
+    const windup = attack.stage === 'windup';
+    const blink = 0.35 + Math.abs(Math.sin(this.state.elapsedMs / 90)) * 0.4;
+    const g = this.gfx;
+    if (attack.kind === 'lunge') {
+      const reach = boss.radius * 6;
+      const end = { x: boss.pos.x + attack.dir.x * reach, y: boss.pos.y + attack.dir.y * reach };
+      g.lineStyle(boss.radius * 0.9, 0xff5c5c, windup ? blink * 0.35 : 0.12);
+      g.lineBetween(boss.pos.x, boss.pos.y, end.x, end.y);
+      g.lineStyle(2, 0xffb7b7, windup ? blink : 0.3);
+      g.strokeCircle(end.x, end.y, boss.radius * 0.5);
+    } else if (attack.kind === 'tail-sweep') {
+      const radius = bossSweepRadius(boss);
+      // The sweep covers the half behind the boss, opposite the way it faces.
+      const back = attack.dir.x < 0 ? 0 : Math.PI;
+      g.fillStyle(0xff7f6a, windup ? blink * 0.25 : 0.4);
+      g.slice(boss.pos.x, boss.pos.y, radius, back - Math.PI / 2, back + Math.PI / 2, false);
+      g.fillPath();
+      g.lineStyle(2, 0xffb7b7, windup ? blink : 0.8);
+      g.beginPath();
+      g.arc(boss.pos.x, boss.pos.y, radius, back - Math.PI / 2, back + Math.PI / 2, false);
+      g.strokePath();
+    } else {
+      const grow = windup ? 1 - Math.max(0, attack.until - this.state.run.timeSeconds) : 1;
+      g.lineStyle(3, 0xc18bff, blink);
+      g.strokeCircle(boss.pos.x, boss.pos.y, boss.radius * (1.4 + grow * 0.6));
+    }
+  }
+
+  /** Boss health across the top, notched where each new phase starts. */
+  private drawBossHealth() {
+    const boss = this.state.entities.find((e) => e.boss);
+    if (!boss?.boss || !boss.combat) {
+      this.bossLabel?.setVisible(false);
+      return;
+    }
+    const g = this.hudGfx;
+    const w = GameScene.BOSS_BAR_WIDTH;
+    const x = (this.state.view.width - w) / 2;
+    const y = 44;
+    const fraction = Phaser.Math.Clamp(boss.combat.health / boss.combat.maxHealth, 0, 1);
+    const flashing = this.state.run.timeSeconds < boss.combat.flashUntil;
+    g.fillStyle(0x061622, 0.75);
+    g.fillRoundedRect(x - 3, y - 3, w + 6, 16, 6);
+    g.fillStyle(flashing ? 0xffffff : boss.boss.enraged ? 0xff3b3b : this.theme.apexColor, 0.95);
+    g.fillRoundedRect(x, y, Math.max(10, w * fraction), 10, 5);
+    g.lineStyle(2, 0x061622, 0.9);
+    for (const notch of [1 / 3, 2 / 3]) g.lineBetween(x + w * notch, y - 2, x + w * notch, y + 12);
+    if (!this.bossLabel) {
+      this.bossLabel = this.add.text(0, 0, '', {
+        fontFamily: 'Trebuchet MS, Verdana, sans-serif',
+        fontSize: '12px',
+        fontStyle: '700',
+        color: '#ffb7b7',
+        stroke: '#061622',
+        strokeThickness: 3,
+      }).setOrigin(0.5, 0).setDepth(20).setScrollFactor(0);
+    }
+    const status = boss.boss.enraged ? 'ENRAGED' : `PHASE ${boss.boss.phase}`;
+    this.bossLabel.setText(`LEVIATHAN · ${status}`).setPosition(this.state.view.width / 2, y + 15).setVisible(true);
+  }
+
+  private drawShield() {
+    if (!isPowerUpActive(this.state, 'shield')) return;
+    const { pos, radius } = this.state.player;
+    const wobble = Math.sin(this.state.elapsedMs / 200) * 2;
+    this.gfx.lineStyle(2, this.theme.pickupColors.shield, 0.7);
+    this.gfx.strokeCircle(pos.x, pos.y, radius * 1.45 + wobble);
+    this.gfx.fillStyle(this.theme.pickupColors.shield, 0.08);
+    this.gfx.fillCircle(pos.x, pos.y, radius * 1.45 + wobble);
+  }
+
+  /** Remaining time per active power-up as labelled bars along the top edge. */
+  private drawPowerUpTimers() {
+    const active = (Object.keys(powerUpLabels) as PowerUpKind[]).filter((kind) => isPowerUpActive(this.state, kind));
+    for (const [kind, text] of this.powerUpTimerTexts) {
+      if (!active.includes(kind)) text.setVisible(false);
+    }
+    const barWidth = 96;
+    const gap = 12;
+    let x = (this.state.view.width - (active.length * barWidth + (active.length - 1) * gap)) / 2;
+    for (const kind of active) {
+      const remaining = (this.state.player.powerUps[kind] ?? 0) - this.state.run.timeSeconds;
+      const fraction = Phaser.Math.Clamp(remaining / this.state.difficulty.powerUpSeconds[kind], 0, 1);
+      const color = this.theme.pickupColors[kind];
+      // Blink through the last two seconds as a warning.
+      const alpha = remaining < 2 && Math.sin(this.state.elapsedMs / 70) < 0 ? 0.45 : 0.95;
+      this.hudGfx.fillStyle(0x061622, 0.7);
+      this.hudGfx.fillRoundedRect(x, 16, barWidth, 8, 4);
+      this.hudGfx.fillStyle(color, alpha);
+      this.hudGfx.fillRoundedRect(x, 16, Math.max(8, barWidth * fraction), 8, 4);
+      let text = this.powerUpTimerTexts.get(kind);
+      if (!text) {
+        text = this.add.text(0, 0, powerUpLabels[kind], {
+          fontFamily: 'Trebuchet MS, Verdana, sans-serif',
+          fontSize: '11px',
+          fontStyle: '700',
+          color: `#${color.toString(16).padStart(6, '0')}`,
+          stroke: '#061622',
+          strokeThickness: 3,
+        }).setOrigin(0.5, 0).setDepth(20).setScrollFactor(0);
+        this.powerUpTimerTexts.set(kind, text);
+      }
+      text.setPosition(x + barWidth / 2, 26).setVisible(true).setAlpha(alpha);
+      x += barWidth + gap;
+    }
+  }
+
+  /** Arena overview in the bottom-right corner, clear of the HUD buttons: terrain, the current view and where the big threats are. */
+  private drawMinimap() {
+    const { arena, view, player } = this.state;
+    const g = this.hudGfx;
+    const w = GameScene.MINIMAP_WIDTH;
+    const k = w / arena.width;
+    const h = arena.height * k;
+    const left = view.width - w - 14;
+    const top = view.height - h - 14;
+    g.fillStyle(0x061622, 0.55);
+    g.fillRoundedRect(left - 3, top - 3, w + 6, h + 6, 5);
+    g.fillStyle(0x3b5d63, 0.8);
+    for (const obstacle of this.state.terrain) {
+      for (const c of obstacle.circles) g.fillCircle(left + c.x * k, top + c.y * k, Math.max(1, c.r * k));
+    }
+    g.lineStyle(1, 0xbff7ff, 0.6);
+    g.strokeRect(left + view.x * k, top + view.y * k, view.width * k, view.height * k);
+    for (const e of this.state.entities) {
+      if (e.kind !== 'apex' && e.kind !== 'pickup') continue;
+      g.fillStyle(e.kind === 'apex' ? this.theme.apexColor : this.theme.pickupColors[e.powerUp ?? 'speed'], 0.95);
+      g.fillCircle(left + e.pos.x * k, top + e.pos.y * k, 2);
+    }
+    g.fillStyle(this.theme.playerColor, 1);
+    g.fillCircle(left + player.pos.x * k, top + player.pos.y * k, 2.5);
   }
 
   private debugFishExtents(radius: number, scaleFactor: number) {
@@ -277,9 +569,15 @@ export class GameScene extends Phaser.Scene {
     g.strokeLineShape(new Phaser.Geom.Line(this.state.player.pos.x - 8, this.state.player.pos.y, this.state.player.pos.x + 8, this.state.player.pos.y));
     g.strokeLineShape(new Phaser.Geom.Line(this.state.player.pos.x, this.state.player.pos.y - 8, this.state.player.pos.x, this.state.player.pos.y + 8));
 
+    g.lineStyle(2, 0xd9c79a, 0.8);
+    for (const obstacle of this.state.terrain) {
+      for (const c of obstacle.circles) g.strokeCircle(c.x, c.y, c.r);
+      if (obstacle.gap) g.strokeCircle(obstacle.gap.pos.x, obstacle.gap.pos.y, obstacle.gap.width / 2);
+    }
+
     for (const e of this.state.entities) {
-      const isFish = e.kind !== 'hazard';
-      const ext = e.kind === 'hazard'
+      const isFish = e.kind !== 'hazard' && e.kind !== 'pickup';
+      const ext = !isFish
         ? { rx: e.radius * d.enemyHitboxScale, ry: e.radius * d.enemyHitboxScale }
         : this.debugFishExtents(e.radius, d.enemyHitboxScale);
       if (e.kind === 'apex') {
@@ -372,6 +670,13 @@ export class GameScene extends Phaser.Scene {
       if (this.textures.exists(key)) return key;
       return size <= 2 ? 'reef-prey' : 'reef-predator';
     }
+    if (entity.boss) {
+      const flashing = !!(entity.combat && this.state.run.timeSeconds < entity.combat.flashUntil);
+      const windupBlink = entity.boss.attack?.stage === 'windup' && Math.sin(this.state.elapsedMs / 60) > 0;
+      const key = flashing || windupBlink ? 'apex-s5-hit' : 'apex-s5';
+      if (this.textures.exists(key)) return key;
+      return flashing || windupBlink ? 'reef-apex-hit' : 'reef-apex';
+    }
     if (entity.kind === 'apex') {
       const flashing = !!(entity.combat && this.state.run.timeSeconds < entity.combat.flashUntil);
       if (flashing) {
@@ -381,10 +686,58 @@ export class GameScene extends Phaser.Scene {
       if (this.textures.exists('apex-s5')) return 'apex-s5';
       return 'reef-apex';
     }
+    if (entity.kind === 'pickup') return `pickup-${entity.powerUp ?? 'speed'}`;
+    if (entity.hazardType && entity.hazardType !== 'jellyfish') return `hazard-${entity.hazardType}`;
     if (this.textures.exists('hazard')) return 'hazard';
     return 'reef-hazard';
   }
 
+  /** Each run lays out its own terrain, so sprites are rebuilt whenever the layout object changes. */
+  private syncTerrainSprites() {
+    if (this.renderedTerrain === this.state.terrain) return;
+    this.renderedTerrain = this.state.terrain;
+    for (const sprite of this.terrainSprites) sprite.destroy();
+    this.terrainSprites = [];
+    for (const obstacle of this.state.terrain) {
+      if (obstacle.backdrop) continue;
+      obstacle.circles.forEach((c, i) => {
+        const frame = i % 2 === 0 ? 'rocks-a' : 'rocks-b';
+        const source = terrainFrames[frame];
+        if (!this.textures.exists(source.texture)) return;
+        this.terrainSprites.push(this.add.image(c.x, c.y, source.texture, frame)
+          .setDepth(6)
+          .setDisplaySize(c.r * 2.3, c.r * 2)
+          .setFlipX(i % 3 === 1));
+      });
+      // A coral cap on the highest rock of each formation.
+      const top = obstacle.circles.reduce((best, c) => (c.y - c.r < best.y - best.r ? c : best));
+      const cap = terrainFrames[obstacle.kind === 'cave' ? 'coral-b' : 'coral-a'];
+      if (this.textures.exists(cap.texture)) {
+        this.terrainSprites.push(this.add.image(top.x, top.y - top.r * 0.8, cap.texture, obstacle.kind === 'cave' ? 'coral-b' : 'coral-a')
+          .setDepth(6)
+          .setDisplaySize(top.r * 1.1, top.r * 1.1));
+      }
+    }
+  }
+
+  /** Solid rock bodies under the art, plus a shadowed tunnel for caves. */
+  private drawTerrain() {
+    for (const obstacle of this.state.terrain) {
+      if (obstacle.backdrop) continue;
+      if (obstacle.gap) {
+        const { pos, width } = obstacle.gap;
+        this.gfx.fillStyle(0x020b12, 0.55);
+        this.gfx.fillRect(obstacle.bounds.x - obstacle.bounds.r * 0.7, pos.y - width / 2 - 6, obstacle.bounds.r * 1.4, width + 12);
+      }
+      for (const c of obstacle.circles) {
+        this.gfx.fillStyle(0x1c343b, 0.95);
+        this.gfx.fillCircle(c.x, c.y, c.r);
+        this.gfx.fillStyle(0x5f8f8a, 0.18);
+        this.gfx.fillCircle(c.x - c.r * 0.25, c.y - c.r * 0.3, c.r * 0.55);
+      }
+    }
+  }
+
   private syncEntitySprites() {
     const ids = new Set<number>();
     for (const entity of this.state.entities) {
@@ -392,16 +745,24 @@ export class GameScene extends Phaser.Scene {
       let sprite = this.entitySprites.get(entity.id);
       const textureKey = this.spriteKeyForEntity(entity);
       if (!sprite) {
-        sprite = this.add.image(0, 0, textureKey).setDepth(entity.kind === 'hazard' ? 4 : 5);
+        sprite = this.add.image(0, 0, textureKey).setDepth(entity.kind === 'hazard' || entity.kind === 'pickup' ? 4 : 5);
         sprite.setOrigin(0.5);
         this.entitySprites.set(entity.id, sprite);
       } else if (sprite.texture.key !== textureKey) {
         sprite.setTexture(textureKey);
       }
-      const ds = GameScene.SPRITE_DISPLAY_SIZE;
+      // Pickup and typed hazard art is drawn edge to edge, unlike the padded fish sheets.
+      const edgeToEdge = entity.kind === 'pickup' || (entity.hazardType !== undefined && entity.hazardType !== 'jellyfish');
+      const ds = edgeToEdge
+        ? entity.radius * 2.6
+        : GameScene.SPRITE_DISPLAY_SIZE * (entity.boss ? GameScene.BOSS_DISPLAY_SCALE : 1);
       sprite.setPosition(entity.pos.x, entity.pos.y);
       sprite.setDisplaySize(ds, ds);
-      if (entity.kind !== 'hazard') {
+      if (entity.kind === 'pickup') {
+        const expiring = entity.expiresAt !== undefined && entity.expiresAt - this.state.run.timeSeconds < 2;
+        sprite.setAlpha(expiring && Math.sin(this.state.elapsedMs / 80) < 0 ? 0.35 : 1);
+        sprite.setRotation(Math.sin((this.state.elapsedMs + entity.id * 40) / 300) * 0.15);
+      } else if (entity.kind !== 'hazard') {
         const facingLeft = entity.vel.x < 0;
         const facingSign = facingLeft ? -1 : 1;
         sprite.setFlipX(facingLeft);
@@ -409,13 +770,21 @@ export class GameScene extends Phaser.Scene {
         const bank = Math.atan2(entity.vel.y, Math.max(20, Math.abs(entity.vel.x))) * 0.45 * facingSign;
         sprite.setRotation(bank + sway);
         sprite.setScale(sprite.scaleX, sprite.scaleY * (0.98 + Math.sin((this.state.elapsedMs / 140) + entity.id) * 0.02));
+      } else if (entity.hazardType === 'net') {
+        sprite.setRotation((this.state.elapsedMs + entity.id * 400) / 4000 * Math.sign(entity.vel.x || 1));
+      } else if (entity.hazardType === 'urchin') {
+        sprite.setRotation(0);
       } else {
         sprite.setRotation(Math.sin((this.state.elapsedMs + entity.id * 40) / 220) * 0.06);
       }
       if (entity.kind === 'apex') {
         const flashing = !!(entity.combat && this.state.run.timeSeconds < entity.combat.flashUntil);
+        const menacing = entity.boss && (entity.boss.enraged || entity.boss.attack?.stage === 'windup');
         if (flashing) sprite.setTintFill(0xffffff);
+        else if (menacing) sprite.setTint(0xff8a8a);
         else sprite.clearTint();
+      } else if (entity.trappedUntil !== undefined && this.state.run.timeSeconds < entity.trappedUntil) {
+        sprite.setTint(0xd9c79a);
       } else {
         sprite.clearTint();
       }
@@ -459,6 +828,30 @@ export class GameScene extends Phaser.Scene {
         this.spawnFloatingText(event.pos.x, event.pos.y - 22, `APEX DOWN +${event.points}`, '#ff9f9f');
         this.spawnBurst(event.pos.x, event.pos.y, 18, 0xff9f9f, 84);
       }
+      if (event.type === 'boss-spawned') {
+        const { view } = this.state;
+        this.threatPulse = 0.5;
+        this.spawnFloatingText(view.x + view.width / 2, view.y + view.height * 0.3, 'THE LEVIATHAN WAKES', '#ff9f9f');
+      }
+      if (event.type === 'boss-phase' || event.type === 'boss-enraged') {
+        const boss = this.state.entities.find((e) => e.id === event.entityId);
+        this.threatPulse = Math.min(0.5, this.threatPulse + 0.25);
+        if (boss) {
+          this.spawnFloatingText(boss.pos.x, boss.pos.y - boss.radius - 20, event.type === 'boss-enraged' ? 'ENRAGED' : `PHASE ${event.phase}`, '#ff9f9f');
+          this.spawnBurst(boss.pos.x, boss.pos.y, 14, 0xff5c5c, 70);
+        }
+      }
+      if (event.type === 'boss-tail-sweep') {
+        this.spawnBurst(event.pos.x, event.pos.y, 16, 0xff7f6a, event.radius);
+      }
+      if (event.type === 'boss-summon') {
+        this.spawnBurst(event.pos.x, event.pos.y, 12, 0xc18bff, 80);
+      }
+      if (event.type === 'boss-defeated') {
+        this.threatPulse = 0.5;
+        this.spawnFloatingText(event.pos.x, event.pos.y - 48, `LEVIATHAN SLAIN +${event.points}`, '#ffe27a');
+        this.spawnBurst(event.pos.x, event.pos.y, 30, 0xffe27a, 140);
+      }
       if (event.type === 'eat') {
         const p = this.state.player.pos;
         this.spawnBurst(p.x, p.y, 3, 0xa8ffe7, 24);
@@ -467,6 +860,49 @@ export class GameScene extends Phaser.Scene {
         const p = this.state.player.pos;
         this.spawnBurst(p.x, p.y, 10, 0xff7f6a, 70);
       }
+      if (event.type === 'combo') {
+        if (event.bonus > 0) {
+          this.spawnFloatingText(event.pos.x, event.pos.y - 30, `x${event.multiplier} COMBO +${event.bonus}`, '#ffe27a');
+          this.spawnBurst(event.pos.x, event.pos.y, 10, 0xffe27a, 60);
+        } else {
+          this.spawnFloatingText(event.pos.x, event.pos.y - 24, `${event.count} chain`, '#bff7ff');
+        }
+      }
+      if (event.type === 'combo-break' && event.count >= 3) {
+        const p = this.state.player.pos;
+        this.spawnFloatingText(p.x, p.y - 34, event.reason === 'hit' ? 'COMBO BROKEN' : 'COMBO ENDED', '#9fb8c8');
+      }
+      if (event.type === 'power-up') {
+        const color = this.theme.pickupColors[event.powerUp];
+        this.spawnFloatingText(event.pos.x, event.pos.y - 18, powerUpLabels[event.powerUp], `#${color.toString(16).padStart(6, '0')}`);
+        this.spawnBurst(event.pos.x, event.pos.y, 8, color, 48);
+      }
+      if (event.type === 'power-up-expired' && event.reason === 'used') {
+        const p = this.state.player.pos;
+        this.spawnBurst(p.x, p.y, 14, this.theme.pickupColors[event.powerUp], 80);
+      }
+      if (event.type === 'player-stunned') {
+        const p = this.state.player.pos;
+        this.spawnFloatingText(p.x, p.y - 30, event.cause === 'net' ? 'TANGLED' : 'STUNG', event.cause === 'net' ? '#e8dcb8' : '#d9b8ff');
+        this.spawnBurst(p.x, p.y, 6, event.cause === 'net' ? 0xe8dcb8 : 0xc18bff, 40);
+      }
+      if (event.type === 'mine-exploded') {
+        this.threatPulse = Math.min(0.5, this.threatPulse + 0.2);
+        this.spawnBurst(event.pos.x, event.pos.y, 22, 0xffb347, event.radius);
+        this.spawnBurst(event.pos.x, event.pos.y, 10, 0xff5c5c, event.radius * 0.5);
+        if (event.npcKills > 0) this.spawnFloatingText(event.pos.x, event.pos.y - 24, `BOOM x${event.npcKills}`, '#ffb347');
+      }
+      if (event.type === 'fish-trapped') {
+        this.spawnBurst(event.pos.x, event.pos.y, 3, 0xe8dcb8, 20);
+      }
+      if (event.type === 'net-torn') {
+        this.spawnFloatingText(event.pos.x, event.pos.y - 20, 'NET TORN', '#e8dcb8');
+        this.spawnBurst(event.pos.x, event.pos.y, 12, 0xe8dcb8, 64);
+      }
+      if (event.type === 'npc-eat') {
+        const apexMeal = event.predatorKind === 'apex';
+        this.spawnBurst(event.pos.x, event.pos.y, apexMeal ? 8 : 2 + event.preySizeClass, apexMeal ? 0xff9f9f : 0xffe2b0, apexMeal ? 54 : 30);
+      }
     }
   }
 
@@ -516,6 +952,7 @@ export class GameScene extends Phaser.Scene {
     for (let y = 24; y < this.state.arena.height; y += 34) {
       this.gfx.fillRect(0, y + Math.sin((this.state.elapsedMs / 450) + y) * 2, this.state.arena.width, 1);
     }
+    this.drawCurrents();
     if (!this.bgMidSprite) {
       this.gfx.fillStyle(0x0b2f40, 0.35);
       for (let i = 0; i < 6; i += 1) {
@@ -525,39 +962,90 @@ export class GameScene extends Phaser.Scene {
       }
     }
     this.gfx.fillStyle(0xe5fbff, 0.06);
-    for (let i = 0; i < 12; i += 1) {
+    for (let i = 0; i < Math.ceil(this.state.arena.width / 90) + 1; i += 1) {
       const x = (i * 90 + (this.state.elapsedMs * 0.06)) % (this.state.arena.width + 80) - 20;
       const y = 52 + Math.sin(i + this.state.elapsedMs / 600) * 8;
       this.gfx.fillEllipse(x, y, 58, 6);
     }
+    // Bubbles live in screen space so there are always some in view, wherever the camera is.
+    const { view } = this.state;
     for (const b of this.bubbles) {
       b.y -= (b.speed * this.game.loop.delta) / 1000;
       b.x += Math.sin((this.state.elapsedMs / 1000) + b.phase) * 0.15 * b.drift;
       if (b.y < -12) {
-        b.y = this.state.arena.height + Phaser.Math.Between(4, 28);
-        b.x = Phaser.Math.Between(0, this.state.arena.width);
+        b.y = view.height + Phaser.Math.Between(4, 28);
+        b.x = Phaser.Math.Between(0, view.width);
       }
-      if (b.x < -12) b.x = this.state.arena.width + 8;
-      if (b.x > this.state.arena.width + 12) b.x = -8;
+      if (b.x < -12) b.x = view.width + 8;
+      if (b.x > view.width + 12) b.x = -8;
       this.gfx.lineStyle(1, 0xc7f5ff, b.alpha);
-      this.gfx.strokeCircle(b.x, b.y, b.r);
+      this.gfx.strokeCircle(view.x + b.x, view.y + b.y, b.r);
     }
     if (dangerOverlay > 0.01) {
       this.gfx.fillStyle(0xa11212, dangerOverlay * 0.25);
-      this.gfx.fillRect(0, 0, this.state.arena.width, this.state.arena.height);
+      this.gfx.fillRect(view.x, view.y, view.width, view.height);
       this.gfx.fillStyle(0xff7a7a, dangerOverlay * 0.06);
-      this.gfx.fillEllipse(this.state.arena.width * 0.55, this.state.arena.height * 0.5, 760, 420);
+      this.gfx.fillEllipse(view.x + view.width * 0.55, view.y + view.height * 0.5, 760, 420);
+    }
+  }
+
+  /** Faint streaks that travel with each current; reduced motion swaps them for still direction marks. */
+  private drawCurrents() {
+    const still = this.bridge.getSettings().reducedMotion;
+    const t = this.state.run.timeSeconds;
+    for (const zone of this.state.currents) {
+      const alpha = 0.04 + currentPulse(zone, t) * 0.08;
+      this.gfx.lineStyle(2, 0xbff7ff, alpha);
+      if (zone.kind === 'band') this.drawCurrentBand(zone, alpha, still);
+      else this.drawCurrentVortex(zone, still);
+    }
+  }
+
+  private drawCurrentBand(zone: Extract<CurrentZone, { kind: 'band' }>, alpha: number, still: boolean) {
+    const { width } = this.state.arena;
+    const spacing = 120;
+    const streak = 46;
+    const travel = still ? 0 : (this.state.elapsedMs / 1000) * zone.strength * 0.6;
+    for (const lane of [-0.5, 0, 0.5]) {
+      const y = zone.y + lane * zone.halfHeight;
+      const laneOffset = (lane + 0.5) * spacing * 0.5;
+      for (let i = 0; i < Math.ceil(width / spacing) + 2; i += 1) {
+        const raw = i * spacing + laneOffset + travel * zone.direction;
+        const x = (((raw % (width + spacing)) + width + spacing) % (width + spacing)) - spacing / 2;
+        if (still) {
+          // A chevron pointing downstream instead of a moving streak.
+          const tip = x + zone.direction * 8;
+          this.gfx.strokeLineShape(new Phaser.Geom.Line(x, y - 6, tip, y));
+          this.gfx.strokeLineShape(new Phaser.Geom.Line(x, y + 6, tip, y));
+        } else {
+          this.gfx.lineStyle(2, 0xbff7ff, alpha * (lane === 0 ? 1 : 0.6));
+          this.gfx.strokeLineShape(new Phaser.Geom.Line(x, y, x + streak * zone.direction, y));
+        }
+      }
+    }
+  }
+
+  private drawCurrentVortex(zone: Extract<CurrentZone, { kind: 'vortex' }>, still: boolean) {
+    const spin = still ? 0 : (this.state.elapsedMs / 1000) * (zone.strength / zone.radius) * zone.spin;
+    for (const [ring, ratio] of [0.35, 0.6, 0.85].entries()) {
+      const r = zone.radius * ratio;
+      for (let arc = 0; arc < 3; arc += 1) {
+        const start = spin + ring * 0.9 + (arc * Math.PI * 2) / 3;
+        this.gfx.beginPath();
+        this.gfx.arc(zone.center.x, zone.center.y, r, start, start + 0.9, false);
+        this.gfx.strokePath();
+      }
     }
   }
 
   private drawVignette() {
-    this.gfx.fillStyle(0x02090f, 0.2);
-    this.gfx.fillRect(0, 0, this.state.arena.width, 30);
-    this.gfx.fillRect(0, this.state.arena.height - 30, this.state.arena.width, 30);
-    this.gfx.fillRect(0, 0, 30, this.state.arena.height);
-    this.gfx.fillRect(this.state.arena.width - 30, 0, 30, this.state.arena.height);
-    this.gfx.fillStyle(0xa8f2ff, 0.03);
-    this.gfx.fillRect(0, 0, this.state.arena.width, 10);
+    this.hudGfx.fillStyle(0x02090f, 0.2);
+    this.hudGfx.fillRect(0, 0, this.state.view.width, 30);
+    this.hudGfx.fillRect(0, this.state.view.height - 30, this.state.view.width, 30);
+    this.hudGfx.fillRect(0, 0, 30, this.state.view.height);
+    this.hudGfx.fillRect(this.state.view.width - 30, 0, 30, this.state.view.height);
+    this.hudGfx.fillStyle(0xa8f2ff, 0.03);
+    this.hudGfx.fillRect(0, 0, this.state.view.width, 10);
   }
 
   private spawnBurst(x: number, y: number, count: number, color: number, speed: number) {
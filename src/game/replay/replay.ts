@@ -0,0 +1,186 @@
+import { stageById } from '../core/campaign';
+import { challengeById } from '../core/challenges';
+import { dailyChallengeFor } from '../core/daily';
+import { createInitialGameState, startNewRun, tickGame } from '../core/engine';
+import { clamp, clampLength } from '../core/math';
+import type { DifficultyKey, GameState, InputState, ReplayData, RunScenario } from '../core/types';
+
+/** Bumped whenever simulation behavior changes, since older recordings no longer reproduce their runs. */
+const REPLAY_VERSION = 14;
+/** Movement axes are stored as signed 8-bit steps of a unit direction vector. */
+const AXIS_STEPS = 127;
+/** Frame time is stored in whole ms; the engine clamps simulation dt to 50ms anyway. */
+const MAX_FRAME_MS = 127;
+const PAUSE_BIT = 0x80;
+const MAX_RUN_LENGTH = 255;
+/** Each run-length record is [count, x + 127, y + 127, dtMs | pauseBit]. */
+const RECORD_BYTES = 4;
+
+export type ReplayFrame = {
+  input: InputState;
+  dtMs: number;
+};
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  for (const b of bytes) binary += String.fromCharCode(b);
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string) => {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i += 1) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+const decodeFrame = (x: number, y: number, timing: number): ReplayFrame => ({
+  input: {
+    movement: { x: (x - AXIS_STEPS) / AXIS_STEPS, y: (y - AXIS_STEPS) / AXIS_STEPS },
+    pausePressed: (timing & PAUSE_BIT) !== 0,
+  },
+  dtMs: timing & ~PAUSE_BIT,
+});
+
+/**
+ * Captures the per-frame input of a run. `capture` returns the quantized frame, and the caller must
+ * tick the engine with that frame (not the raw input) so that playback reproduces the run exactly.
+ */
+export class ReplayRecorder {
+  private bytes: number[] = [];
+  private frameCount = 0;
+
+  constructor(
+    private readonly seed: number,
+    private readonly difficulty: DifficultyKey,
+    private readonly scenario: RunScenario | null = null,
+  ) {}
+
+  capture(input: InputState, dtMs: number): ReplayFrame {
+    const dir = clampLength(input.movement, 1);
+    const x = Math.round(dir.x * AXIS_STEPS) + AXIS_STEPS;
+    const y = Math.round(dir.y * AXIS_STEPS) + AXIS_STEPS;
+    const timing = Math.round(clamp(dtMs, 0, MAX_FRAME_MS)) | (input.pausePressed ? PAUSE_BIT : 0);
+
+    const last = this.bytes.length - RECORD_BYTES;
+    if (
+      last >= 0
+      && this.bytes[last] < MAX_RUN_LENGTH
+      && this.bytes[last + 1] === x
+      && this.bytes[last + 2] === y
+      && this.bytes[last + 3] === timing
+    ) {
+      this.bytes[last] += 1;
+    } else {
+      this.bytes.push(1, x, y, timing);
+    }
+    this.frameCount += 1;
+    return decodeFrame(x, y, timing);
+  }
+
+  finish(finalScore: number): ReplayData {
+    return {
+      version: REPLAY_VERSION,
+      seed: this.seed,
+      difficulty: this.difficulty,
+      frameCount: this.frameCount,
+      finalScore,
+      frames: toBase64(Uint8Array.from(this.bytes)),
+      ...(this.scenario?.type === 'stage' ? { stageId: this.scenario.stage.id } : {}),
+      ...(this.scenario?.type === 'challenge' ? { challengeId: this.scenario.challenge.id } : {}),
+      ...(this.scenario?.type === 'daily' ? { dailyDate: this.scenario.daily.dateKey } : {}),
+    };
+  }
+}
+
+/** Feeds a recording back frame by frame; `next` returns null once the recording is exhausted. */
+export class ReplayPlayer {
+  private readonly bytes: Uint8Array;
+  private offset = 0;
+  private usedInRecord = 0;
+
+  constructor(readonly replay: ReplayData) {
+    this.bytes = fromBase64(replay.frames);
+  }
+
+  next(): ReplayFrame | null {
+    while (this.offset + RECORD_BYTES <= this.bytes.length) {
+      const count = this.bytes[this.offset];
+      if (this.usedInRecord < count) {
+        this.usedInRecord += 1;
+        return decodeFrame(this.bytes[this.offset + 1], this.bytes[this.offset + 2], this.bytes[this.offset + 3]);
+      }
+      this.offset += RECORD_BYTES;
+      this.usedInRecord = 0;
+    }
+    return null;
+  }
+}
+
+export const serializeReplay = (replay: ReplayData) => JSON.stringify(replay);
+
+/** Structural check for replays coming from storage or a pasted bug report; null when unusable. */
+export const validateReplay = (value: unknown): ReplayData | null => {
+  if (!value || typeof value !== 'object') return null;
+  const parsed = value as Partial<ReplayData>;
+  if (
+    parsed.version !== REPLAY_VERSION
+    || typeof parsed.seed !== 'number'
+    || (parsed.difficulty !== 'easy' && parsed.difficulty !== 'normal' && parsed.difficulty !== 'hard')
+    || typeof parsed.frames !== 'string'
+    || (parsed.stageId !== undefined && typeof parsed.stageId !== 'string')
+    || (parsed.challengeId !== undefined && typeof parsed.challengeId !== 'string')
+    || (parsed.dailyDate !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(String(parsed.dailyDate)))
+  ) {
+    return null;
+  }
+  try {
+    fromBase64(parsed.frames);
+  } catch {
+    return null;
+  }
+  return {
+    version: REPLAY_VERSION,
+    seed: parsed.seed,
+    difficulty: parsed.difficulty,
+    frameCount: Number(parsed.frameCount) || 0,
+    finalScore: Number(parsed.finalScore) || 0,
+    frames: parsed.frames,
+    ...(parsed.stageId ? { stageId: parsed.stageId } : {}),
+    ...(parsed.challengeId ? { challengeId: parsed.challengeId } : {}),
+    ...(parsed.dailyDate ? { dailyDate: parsed.dailyDate } : {}),
+  };
+};
+
+export const parseReplay = (text: string): ReplayData | null => {
+  try {
+    return validateReplay(JSON.parse(text));
+  } catch {
+    return null;
+  }
+};
+
+/** Rebuilds the stage, challenge or daily a replay was recorded in; null for arcade. */
+export const scenarioForReplay = (replay: ReplayData): RunScenario | null => {
+  const stage = stageById(replay.stageId);
+  if (stage) return { type: 'stage', stage };
+  const challenge = challengeById(replay.challengeId);
+  if (challenge) return { type: 'challenge', challenge };
+  if (replay.dailyDate) return { type: 'daily', daily: dailyChallengeFor(replay.dailyDate) };
+  return null;
+};
+
+/**
+ * Plays a recording through the engine with no renderer, the same way `GameScene` does, and returns
+ * the state where it stopped: the end of the run, or wherever the frames (or `maxFrames`) ran out.
+ */
+export const simulateReplay = (replay: ReplayData, maxFrames = Infinity): GameState => {
+  const player = new ReplayPlayer(replay);
+  let state = startNewRun(createInitialGameState(replay.difficulty, replay.seed, scenarioForReplay(replay)), replay.seed);
+  for (let played = 0; played < maxFrames && state.mode !== 'gameOver'; played += 1) {
+    const frame = player.next();
+    if (!frame) break;
+    state = tickGame(state, frame.input, frame.dtMs);
+  }
+  return state;
+};
@@ -0,0 +1,90 @@
+import { canEat, playerEatTier } from '../core/engine';
+import { add, dist, len, normalize, scale, sub } from '../core/math';
+import type { Entity, GameState, InputState, Vec2 } from '../core/types';
+
+/** A scripted player: reads the simulation state and returns the input for the next tick. */
+export type BotPolicy = {
+  key: string;
+  description: string;
+  decide: (state: GameState) => InputState;
+};
+
+const idleInput = (): InputState => ({ movement: { x: 0, y: 0 }, pausePressed: false });
+
+const isThreat = (state: GameState, entity: Entity) => {
+  if (entity.kind === 'apex' || entity.kind === 'hazard') return true;
+  if (entity.kind === 'pickup') return false;
+  return (entity.sizeClass ?? 1) > playerEatTier(state);
+};
+
+/** Push away from threats inside `radius`, weighted by closeness, plus a gentle pull off the walls. */
+const avoidance = (state: GameState, radius: number): Vec2 => {
+  const p = state.player.pos;
+  let push: Vec2 = { x: 0, y: 0 };
+  for (const e of state.entities) {
+    if (!isThreat(state, e)) continue;
+    const d = dist(p, e.pos) - e.radius;
+    if (d > radius) continue;
+    const weight = (radius - Math.max(0, d)) / radius;
+    push = add(push, scale(normalize(sub(p, e.pos)), weight * weight * 3));
+  }
+  const margin = 60;
+  const { width, height } = state.arena;
+  if (p.x < margin) push.x += (margin - p.x) / margin;
+  if (p.x > width - margin) push.x -= (p.x - (width - margin)) / margin;
+  if (p.y < margin) push.y += (margin - p.y) / margin;
+  if (p.y > height - margin) push.y -= (p.y - (height - margin)) / margin;
+  return push;
+};
+
+/** Nearest fish the player can eat, or power-up to collect. */
+const nearestEdible = (state: GameState) => {
+  const tier = playerEatTier(state);
+  let best: Entity | null = null;
+  let bestDist = Infinity;
+  for (const e of state.entities) {
+    if (e.kind !== 'pickup' && !canEat(tier, e)) continue;
+    const d = dist(state.player.pos, e.pos);
+    if (d < bestDist) {
+      best = e;
+      bestDist = d;
+    }
+  }
+  return best;
+};
+
+const seekAndAvoid = (state: GameState, dangerRadius: number, avoidWeight: number): InputState => {
+  const target = nearestEdible(state);
+  const seek = target ? normalize(sub(target.pos, state.player.pos)) : normalize(sub(
+    { x: state.arena.width / 2, y: state.arena.height / 2 },
+    state.player.pos,
+  ));
+  const movement = add(seek, scale(avoidance(state, dangerRadius), avoidWeight));
+  return { movement: len(movement) > 0.05 ? movement : { x: 0, y: 0 }, pausePressed: false };
+};
+
+export const botPolicies: Record<string, BotPolicy> = {
+  idle: {
+    key: 'idle',
+    description: 'Never moves; baseline for how lethal the reef is on its own.',
+    decide: idleInput,
+  },
+  wander: {
+    key: 'wander',
+    description: 'Drifts on a slow deterministic curve with no awareness of fish.',
+    decide: (state) => {
+      const t = state.elapsedMs / 1000;
+      return { movement: { x: Math.sin(t * 0.7 + state.seed), y: Math.cos(t * 0.43 + state.seed * 0.5) }, pausePressed: false };
+    },
+  },
+  greedy: {
+    key: 'greedy',
+    description: 'Chases the nearest edible fish and only swerves when a larger fish is close.',
+    decide: (state) => seekAndAvoid(state, 70, 1.2),
+  },
+  cautious: {
+    key: 'cautious',
+    description: 'Chases the nearest edible fish but gives anything with a larger sizeClass a wide berth.',
+    decide: (state) => seekAndAvoid(state, 150, 2.2),
+  },
+};
@@ -0,0 +1,177 @@
+import { achievementsForRecording } from '../core/achievements';
+import { defaultSaveData } from '../core/config';
+import { createInitialGameState, startNewRun, tickGame } from '../core/engine';
+import type { DifficultyKey, EntityKind, RecordedEventBatch } from '../core/types';
+import type { BotPolicy } from './bots';
+
+export type SimOptions = {
+  /** Fixed simulation step; the engine clamps anything above 50ms. */
+  dtMs: number;
+  /** Runs still alive after this long are stopped and flagged `timedOut`. */
+  maxSeconds: number;
+};
+
+export const defaultSimOptions: SimOptions = {
+  dtMs: 1000 / 60,
+  maxSeconds: 300,
+};
+
+export type SimRunResult = {
+  seed: number;
+  difficulty: DifficultyKey;
+  score: number;
+  survivalSeconds: number;
+  timedOut: boolean;
+  hitsByKind: Partial<Record<EntityKind, number>>;
+  /** Kind of entity that took the last life; undefined when the run timed out. */
+  killedBy?: EntityKind;
+  /** Run time in seconds at which each size tier was first reached. */
+  tierReachedAt: Record<number, number>;
+  apexKills: number;
+  /** Achievement ids a first-time player would unlock during this run. */
+  achievements: string[];
+};
+
+export type Distribution = {
+  mean: number;
+  min: number;
+  p10: number;
+  p50: number;
+  p90: number;
+  max: number;
+};
+
+export type SimSummary = {
+  difficulty: DifficultyKey;
+  policy: string;
+  runs: number;
+  timedOut: number;
+  survivalSeconds: Distribution;
+  score: Distribution;
+  hitsByKind: Partial<Record<EntityKind, number>>;
+  deathsByKind: Partial<Record<EntityKind, number>>;
+  apexKillsPerRun: number;
+  tiers: Array<{ tier: number; reachedPct: number; medianSeconds: number | null }>;
+  /** Share of runs, in percent, that unlock each achievement from a fresh save. */
+  achievementPct: Record<string, number>;
+};
+
+export const simulateRun = (
+  difficulty: DifficultyKey,
+  policy: BotPolicy,
+  seed: number,
+  options: SimOptions = defaultSimOptions,
+): SimRunResult => {
+  let state = startNewRun(createInitialGameState(difficulty, seed), seed);
+  const result: SimRunResult = {
+    seed,
+    difficulty,
+    score: 0,
+    survivalSeconds: 0,
+    timedOut: false,
+    hitsByKind: {},
+    tierReachedAt: { [state.player.sizeTier]: 0 },
+    apexKills: 0,
+    achievements: [],
+  };
+  const recording: RecordedEventBatch[] = [];
+
+  while (state.mode === 'playing') {
+    if (state.run.timeSeconds >= options.maxSeconds) {
+      result.timedOut = true;
+      break;
+    }
+    state = tickGame(state, policy.decide(state), options.dtMs);
+    if (state.pendingEvents.length) recording.push({ timeSeconds: state.run.timeSeconds, events: state.pendingEvents });
+    for (const e of state.pendingEvents) {
+      if (e.type === 'player-hit') {
+        result.hitsByKind[e.cause] = (result.hitsByKind[e.cause] ?? 0) + 1;
+        if (e.livesRemaining <= 0) result.killedBy = e.cause;
+      }
+      if (e.type === 'growth' && result.tierReachedAt[e.sizeTier] === undefined) {
+        result.tierReachedAt[e.sizeTier] = state.run.timeSeconds;
+      }
+      if (e.type === 'apex-killed') result.apexKills += 1;
+    }
+  }
+
+  // Quiet stretches record no batch, so close with one carrying the final clock for time-based unlocks.
+  recording.push({ timeSeconds: state.run.timeSeconds, events: [] });
+  result.score = state.run.score;
+  result.survivalSeconds = state.run.timeSeconds;
+  result.achievements = achievementsForRecording(difficulty, recording, defaultSaveData.stats).earned.map((a) => a.id);
+  return result;
+};
+
+const quantile = (sorted: number[], q: number) => {
+  if (sorted.length === 0) return 0;
+  const idx = Math.min(sorted.length - 1, Math.max(0, Math.round(q * (sorted.length - 1))));
+  return sorted[idx];
+};
+
+const distribution = (values: number[]): Distribution => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const total = sorted.reduce((sum, v) => sum + v, 0);
+  return {
+    mean: sorted.length ? total / sorted.length : 0,
+    min: sorted[0] ?? 0,
+    p10: quantile(sorted, 0.1),
+    p50: quantile(sorted, 0.5),
+    p90: quantile(sorted, 0.9),
+    max: sorted[sorted.length - 1] ?? 0,
+  };
+};
+
+export const summarizeRuns = (difficulty: DifficultyKey, policy: BotPolicy, results: SimRunResult[]): SimSummary => {
+  const hitsByKind: Partial<Record<EntityKind, number>> = {};
+  const deathsByKind: Partial<Record<EntityKind, number>> = {};
+  for (const r of results) {
+    for (const [kind, count] of Object.entries(r.hitsByKind) as Array<[EntityKind, number]>) {
+      hitsByKind[kind] = (hitsByKind[kind] ?? 0) + count;
+    }
+    if (r.killedBy) deathsByKind[r.killedBy] = (deathsByKind[r.killedBy] ?? 0) + 1;
+  }
+  const achievementPct: Record<string, number> = {};
+  for (const id of results.flatMap((r) => r.achievements)) achievementPct[id] = (achievementPct[id] ?? 0) + 100 / results.length;
+
+  const tiers = [1, 2, 3, 4, 5].map((tier) => {
+    const times = results
+      .map((r) => r.tierReachedAt[tier])
+      .filter((t): t is number => t !== undefined)
+      .sort((a, b) => a - b);
+    return {
+      tier,
+      reachedPct: results.length ? (times.length / results.length) * 100 : 0,
+      medianSeconds: times.length ? quantile(times, 0.5) : null,
+    };
+  });
+
+  return {
+    difficulty,
+    policy: policy.key,
+    runs: results.length,
+    timedOut: results.filter((r) => r.timedOut).length,
+    survivalSeconds: distribution(results.map((r) => r.survivalSeconds)),
+    score: distribution(results.map((r) => r.score)),
+    hitsByKind,
+    deathsByKind,
+    apexKillsPerRun: results.length ? results.reduce((sum, r) => sum + r.apexKills, 0) / results.length : 0,
+    tiers,
+    achievementPct,
+  };
+};
+
+/** Runs `runs` seeds starting at `firstSeed`, so a batch is reproducible from its arguments alone. */
+export const simulateBatch = (
+  difficulty: DifficultyKey,
+  policy: BotPolicy,
+  runs: number,
+  firstSeed: number,
+  options: SimOptions = defaultSimOptions,
+): SimSummary => {
+  const results: SimRunResult[] = [];
+  for (let i = 0; i < runs; i += 1) {
+    results.push(simulateRun(difficulty, policy, firstSeed + i, options));
+  }
+  return summarizeRuns(difficulty, policy, results);
+};
@@ -0,0 +1,138 @@
+import type { TelemetryContext, TelemetryEvent, TelemetryEventType, TelemetryPayloads } from './events';
+
+/** Where batches go. A rejected promise keeps the batch queued for the next flush. */
+export interface TelemetrySink {
+  send(batch: TelemetryEvent[]): Promise<void>;
+}
+
+export const noopTelemetrySink: TelemetrySink = {
+  send: async () => {},
+};
+
+/** Development sink: prints each batch instead of sending it anywhere. */
+export const consoleTelemetrySink: TelemetrySink = {
+  send: async (batch) => {
+    console.info(`[telemetry] ${batch.length} event(s)`, batch);
+  },
+};
+
+/** Posts `{ events }` as JSON; `scripts/telemetry-sink.ts` is a local stand-in for the collector. */
+export class HttpTelemetrySink implements TelemetrySink {
+  constructor(
+    private readonly url: string,
+    private readonly fetchImpl: typeof fetch = (...args) => fetch(...args),
+  ) {}
+
+  async send(batch: TelemetryEvent[]) {
+    const response = await this.fetchImpl(this.url, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ events: batch }),
+      // Lets the final flush on page hide complete after the page is gone.
+      keepalive: true,
+    });
+    if (!response.ok) throw new Error(`Telemetry upload failed (${response.status})`);
+  }
+}
+
+export type TelemetrySinkKind = 'console' | 'http' | 'none';
+
+export const createTelemetrySink = (kind: TelemetrySinkKind, url?: string): TelemetrySink => {
+  if (kind === 'console') return consoleTelemetrySink;
+  if (kind === 'http' && url) return new HttpTelemetrySink(url);
+  return noopTelemetrySink;
+};
+
+type TelemetryStorage = Pick<Storage, 'getItem' | 'setItem'>;
+
+export type TelemetryOptions = {
+  /** Events per upload; reaching it also triggers a flush. */
+  batchSize: number;
+  /** Oldest events are dropped past this, so a long offline spell cannot fill storage. */
+  maxStored: number;
+};
+
+export const defaultTelemetryOptions: TelemetryOptions = { batchSize: 20, maxStored: 500 };
+
+const QUEUE_KEY = 'reef-rush-telemetry-queue';
+
+/**
+ * Queues typed events, mirrors the queue to storage so nothing is lost offline or across reloads,
+ * and uploads it in batches. While disabled it records nothing and keeps nothing stored.
+ */
+export class TelemetryClient {
+  readonly sessionId = crypto.randomUUID();
+  private queue: TelemetryEvent[];
+  private seq = 0;
+  private flushing: Promise<void> | null = null;
+
+  constructor(
+    private readonly sink: TelemetrySink,
+    private readonly storage: TelemetryStorage,
+    private enabled: boolean,
+    private readonly options: TelemetryOptions = defaultTelemetryOptions,
+    private readonly now: () => number = Date.now,
+  ) {
+    this.queue = enabled ? this.load() : [];
+    if (!enabled) this.persist();
+  }
+
+  get pending() {
+    return this.queue.length;
+  }
+
+  setEnabled(enabled: boolean) {
+    if (enabled === this.enabled) return;
+    this.enabled = enabled;
+    if (!enabled) {
+      this.queue = [];
+      this.persist();
+    }
+  }
+
+  track<T extends TelemetryEventType>(type: T, context: TelemetryContext, data: TelemetryPayloads[T]) {
+    if (!this.enabled) return;
+    this.seq += 1;
+    const event = { type, sessionId: this.sessionId, seq: this.seq, at: this.now(), ...context, data } as TelemetryEvent;
+    this.queue = [...this.queue, event].slice(-this.options.maxStored);
+    this.persist();
+    if (this.queue.length >= this.options.batchSize) void this.flush();
+  }
+
+  /** Uploads everything queued, one batch at a time, stopping at the first failed upload. */
+  flush(): Promise<void> {
+    this.flushing ??= this.drain().finally(() => { this.flushing = null; });
+    return this.flushing;
+  }
+
+  private async drain() {
+    while (this.enabled && this.queue.length) {
+      const batch = this.queue.slice(0, this.options.batchSize);
+      try {
+        await this.sink.send(batch);
+      } catch {
+        return;
+      }
+      // Events tracked during the upload were appended behind the batch, so only the batch leaves.
+      this.queue = this.queue.filter((event) => !batch.includes(event));
+      this.persist();
+    }
+  }
+
+  private load(): TelemetryEvent[] {
+    try {
+      const parsed: unknown = JSON.parse(this.storage.getItem(QUEUE_KEY) ?? '[]');
+      return Array.isArray(parsed) ? parsed as TelemetryEvent[] : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private persist() {
+    try {
+      this.storage.setItem(QUEUE_KEY, JSON.stringify(this.queue));
+    } catch {
+      // Storage full or unavailable; queued events only last this session.
+    }
+  }
+}
@@ -0,0 +1,64 @@
+import { scenarioKey, scenarioOf } from '../core/engine';
+import { runModeOf } from '../core/leaderboard';
+import type { DifficultyKey, GameState, PlayModeKey, RunEndCause } from '../core/types';
+
+// Typed analytics schemas. Payloads carry only gameplay figures: no save data, replays or device details.
+
+/** Where a run stood when it ended or was abandoned, to see where players die and quit. */
+export type RunSnapshot = {
+  /** `scenarioKey` of the run, e.g. `stage:kelp-run`; null for arcade. */
+  scenario: string | null;
+  score: number;
+  durationSeconds: number;
+  sizeTier: number;
+  livesLeft: number;
+  /** Player position in world coordinates, rounded to whole units. */
+  x: number;
+  y: number;
+};
+
+export type TelemetryPayloads = {
+  run_start: { scenario: string | null; sizeTier: number };
+  run_end: RunSnapshot & { cause: RunEndCause | null; apexKills: number; bestCombo: number };
+  /** The page was closed or hidden for good with a run still in progress. */
+  run_quit: RunSnapshot & { paused: boolean };
+  milestone: { value: number };
+  apex_hit: { points: number };
+  apex_kill: { points: number };
+  ad_slot_view: Record<string, never>;
+};
+
+export type TelemetryEventType = keyof TelemetryPayloads;
+
+export type TelemetryContext = {
+  mode: PlayModeKey;
+  difficulty: DifficultyKey;
+};
+
+export type TelemetryEvent<T extends TelemetryEventType = TelemetryEventType> = {
+  [K in T]: TelemetryContext & {
+    type: K;
+    /** Random per page load, so a player's runs can be grouped without identifying them. */
+    sessionId: string;
+    /** Order within the session; gaps mean events were dropped. */
+    seq: number;
+    /** Epoch milliseconds. */
+    at: number;
+    data: TelemetryPayloads[K];
+  };
+}[T];
+
+export const runContextOf = (state: GameState): TelemetryContext => ({
+  mode: runModeOf(state),
+  difficulty: state.difficulty.key,
+});
+
+export const runSnapshotOf = (state: GameState): RunSnapshot => ({
+  scenario: scenarioKey(scenarioOf(state)),
+  score: state.run.score,
+  durationSeconds: Math.round(state.run.timeSeconds * 10) / 10,
+  sizeTier: state.player.sizeTier,
+  livesLeft: state.player.lives,
+  x: Math.round(state.player.pos.x),
+  y: Math.round(state.player.pos.y),
+});
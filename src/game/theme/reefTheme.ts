@@ -9,11 +9,28 @@ export const reefTheme: ThemeConfig = {
   predatorColor: 0xff7f6a,
   apexColor: 0xf54545,
   hazardColor: 0xc18bff,
+  pickupColors: {
+    speed: 0x7cf4ff,
+    shield: 0x8fb8ff,
+    magnet: 0xff8fd0,
+    frenzy: 0xffb347,
+  },
   sprites: {
     player: '/assets/reef/player.svg',
     prey: '/assets/reef/prey.svg',
     predator: '/assets/reef/predator.svg',
     apex: '/assets/reef/apex.svg',
     hazard: '/assets/reef/hazard.svg',
+    pickups: {
+      speed: '/assets/reef/pickup_speed.svg',
+      shield: '/assets/reef/pickup_shield.svg',
+      magnet: '/assets/reef/pickup_magnet.svg',
+      frenzy: '/assets/reef/pickup_frenzy.svg',
+    },
+    hazards: {
+      mine: '/assets/reef/hazard_mine.svg',
+      urchin: '/assets/reef/hazard_urchin.svg',
+      net: '/assets/reef/hazard_net.svg',
+    },
   },
 };
@@ -1,3 +1,5 @@
+import type { HazardType, PowerUpKind } from '../core/types';
+
 export type ThemeKey = 'reef';
 
 export type ThemeConfig = {
@@ -9,11 +11,15 @@ export type ThemeConfig = {
   predatorColor: number;
   apexColor: number;
   hazardColor: number;
+  pickupColors: Record<PowerUpKind, number>;
   sprites: {
     player: string;
     prey: string;
     predator: string;
     apex: string;
     hazard: string;
+    pickups: Record<PowerUpKind, string>;
+    /** Jellyfish keep the generic `hazard` art. */
+    hazards: Record<Exclude<HazardType, 'jellyfish'>, string>;
   };
 };